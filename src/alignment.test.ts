@@ -0,0 +1,79 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { resample, dtw, bestOffset, alignedMetric } from './alignment';
+
+describe('Alignment', () => {
+  test('Linear resampling', () => {
+    const m = new Morph([0, 2, 4]);
+    expect(resample(m, 5).data).toEqual([0, 1, 2, 3, 4]);
+    expect(resample(new Morph([0, 1, 2, 3, 4]), 3).data).toEqual([0, 2, 4]);
+    expect(() => resample(m, 1)).toThrow();
+  })
+
+  test('Dynamic time warping', () => {
+    const m = new Morph([0, 2, 4, 2]);
+    const n = new Morph([0, 0, 2, 4, 4, 2]);
+    const { path, cost, morphs } = dtw(m, n);
+    expect(cost).toEqual(0);
+    expect(path[0]).toEqual([0, 0]);
+    expect(path[path.length - 1]).toEqual([3, 5]);
+    expect(morphs[0].data).toEqual(morphs[1].data);
+  })
+
+  test('Best offset', () => {
+    const long = new Morph([9, 9, 0, 2, 4, 2, 9]);
+    const motif = new Morph([5, 7, 9, 7]);
+    const res = bestOffset(long, motif, 'OLMCanonical');
+    expect(res).toEqual({ offset: 2, value: 0, longer: 'm' });
+    expect(bestOffset(motif, long, 'OLD').longer).toEqual('n');
+  })
+
+  test('Aligned metrics report their alignment', () => {
+    const m = new Morph([0, 2, 4, 2, 0]);
+    const n = new Morph([0, 1, 2, 3, 4, 3, 2, 1, 0]);
+    expect(() => new MorphologicalMetric([m, n])).toThrow();
+    const res = alignedMetric(m, n, 'OLD');
+    expect(res).toEqual({ value: 0, alignment: 'resample', length: 9 });
+    const shorter = alignedMetric(m, n, 'OLMCanonical', { length: 'shorter' });
+    expect(shorter.value).toEqual(0);
+    const warped = alignedMetric(m, n, 'OCD', { alignment: 'dtw' });
+    expect(warped.alignment).toEqual('dtw');
+    expect(warped.value).toBeGreaterThanOrEqual(0);
+    const offset = alignedMetric(m, n, 'OLM', { 
+      alignment: 'offset', 
+      options: { scaling: 'absolute' } 
+    });
+    expect(offset.alignment).toEqual('offset');
+    const same = alignedMetric(m, m, 'OLD');
+    expect(same).toEqual({ value: 0, alignment: 'none' });
+  })
+
+  test('Modular morphs are aligned in their own space', () => {
+    const wrap = new Morph([10, 2], { modulus: 12 });
+    const resampled = resample(wrap, 5);
+    expect(resampled.data).toEqual([10, 11, 12, 13, 2]);
+    expect(resampled.modulus).toEqual(12);
+    const m = new Morph([11, 1, 3], { modulus: 12 });
+    const n = new Morph([-1, 1, 1, 3], { modulus: 12 });
+    const warped = dtw(m, n);
+    expect(warped.cost).toEqual(0);
+    expect(warped.morphs.map(w => w.modulus)).toEqual([12, 12]);
+    const long = new Morph([0, 11, 1, 6, 4], { modulus: 12 });
+    const motif = new Morph([23, 1, 6], { modulus: 12 });
+    expect(alignedMetric(long, motif, 'OLD', { alignment: 'offset' }))
+      .toEqual({ value: 0, alignment: 'offset', offset: 1, longer: 'm' });
+    expect(alignedMetric(long, motif, 'OLD', { alignment: 'dtw' }).value)
+      .toBeGreaterThanOrEqual(0);
+  })
+
+  test('Weights are carried along', () => {
+    const m = new Morph([0, 2, 4], { weights: [1, 3, 1] });
+    expect(resample(m, 5).weights).toEqual([1, 2, 3, 2, 1]);
+    const n = new Morph([0, 0, 2, 4], { weights: [1, 2, 3, 4] });
+    const { morphs } = dtw(m, n);
+    expect(morphs[0].weights).toEqual([1, 1, 3, 1]);
+    expect(morphs[1].weights).toEqual([1, 2, 3, 4]);
+    const long = new Morph([9, 0, 2, 4, 9], { weights: [1, 2, 2, 2, 1] });
+    const short = new Morph([5, 7, 9], { weights: [2, 2, 2] });
+    expect(bestOffset(long, short, 'OLMCanonical').offset).toEqual(1);
+  })
+})
@@ -0,0 +1,171 @@
+import { Morph } from './morphs';
+import { RegisteredMetric, MetricOptions, compute } from './registry';
+
+// Alignment of morphs with different numbers of points, so that ordered
+// metrics (which compare point i of m with point i of n) can be used on them.
+
+type AlignmentStrategy = 'resample' | 'dtw' | 'offset';
+
+// Linearly interpolates a morph (and its weights) to a new number of points,
+// keeping the first and last values in place. Modular morphs are interpolated
+// along the shortest path around the cycle.
+const resample = (morph: Morph, length: number) => {
+  if (length < 2) {
+    throw new Error('Resampled length must be at least 2');
+  }
+  const last = morph.data.length - 1;
+  const interpolate = (
+    values: number[],
+    interval: (a: number, b: number) => number
+  ) => {
+    return [...Array(length)].map((_, i) => {
+      const pos = i * last / (length - 1);
+      const lo = Math.floor(pos);
+      const hi = Math.min(lo + 1, last);
+      const frac = pos - lo;
+      return values[lo] + frac * interval(values[lo], values[hi]);
+    });
+  };
+  const out = interpolate(morph.data, (a, b) => morph.interval(a, b));
+  const weights = morph.weights && interpolate(morph.weights, (a, b) => b - a);
+  return morph.withData(out, { weights });
+}
+
+// Dynamic time warping between the values of two morphs. Returns the warping
+// path (pairs of indices into m and n) along with the two morphs stretched
+// along that path, which then have the same length. By default, values are
+// compared by the size of the interval between them (modular, if m has a
+// modulus).
+const dtw = (
+  m: Morph,
+  n: Morph,
+  { delta = (a: number, b: number) => Math.abs(m.interval(a, b)) }: {
+    delta?: (a: number, b: number) => number
+  } = {}
+) => {
+  const [M, N] = [m.data.length, n.data.length];
+  const cost: number[][] = [...Array(M)].map(() => Array(N).fill(Infinity));
+  for (let i = 0; i < M; i++) {
+    for (let j = 0; j < N; j++) {
+      const d = delta(m.data[i], n.data[j]);
+      if (i === 0 && j === 0) {
+        cost[i][j] = d;
+        continue;
+      }
+      const prev = Math.min(
+        i > 0 ? cost[i - 1][j] : Infinity,
+        j > 0 ? cost[i][j - 1] : Infinity,
+        i > 0 && j > 0 ? cost[i - 1][j - 1] : Infinity
+      );
+      cost[i][j] = d + prev;
+    }
+  }
+  const path: [number, number][] = [[M - 1, N - 1]];
+  let [i, j] = [M - 1, N - 1];
+  while (i > 0 || j > 0) {
+    if (i === 0) {
+      j--;
+    } else if (j === 0) {
+      i--;
+    } else {
+      const diag = cost[i - 1][j - 1];
+      const up = cost[i - 1][j];
+      const left = cost[i][j - 1];
+      if (diag <= up && diag <= left) {
+        i--;
+        j--;
+      } else if (up <= left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    path.unshift([i, j]);
+  }
+  return {
+    path,
+    cost: cost[M - 1][N - 1],
+    morphs: [
+      m.select(path.map(([i]) => i)),
+      n.select(path.map(([, j]) => j))
+    ] as [Morph, Morph]
+  };
+}
+
+// Slides the shorter morph along the longer one, and returns the offset (into
+// the longer morph) at which the metric is smallest.
+const bestOffset = <K extends RegisteredMetric>(
+  m: Morph,
+  n: Morph,
+  metric: K,
+  opts?: MetricOptions<K>
+) => {
+  const mIsLonger = m.data.length >= n.data.length;
+  const [longer, shorter] = mIsLonger ? [m, n] : [n, m];
+  const len = shorter.data.length;
+  let best = { offset: 0, value: Infinity };
+  for (let offset = 0; offset + len <= longer.data.length; offset++) {
+    const win = longer.slice(offset, offset + len);
+    const value = mIsLonger ?
+      compute(metric, win, shorter, opts) :
+      compute(metric, shorter, win, opts);
+    if (value < best.value) {
+      best = { offset, value };
+    }
+  }
+  return { ...best, longer: mIsLonger ? 'm' as const : 'n' as const };
+}
+
+// Runs an ordered metric on two morphs of possibly different lengths, first
+// aligning them with the given strategy. Morphs of equal length are compared
+// directly, and reported with an alignment of 'none'.
+const alignedMetric = <K extends RegisteredMetric>(
+  m: Morph,
+  n: Morph,
+  metric: K,
+  {
+    alignment = 'resample',
+    length = 'longer',
+    options = undefined
+  }: {
+    alignment?: AlignmentStrategy,
+    length?: 'longer' | 'shorter' | number, // target length for 'resample'
+    options?: MetricOptions<K>
+  } = {}
+) => {
+  if (m.data.length === n.data.length) {
+    return { value: compute(metric, m, n, options), alignment: 'none' as const };
+  }
+  if (alignment === 'resample') {
+    let target: number;
+    if (length === 'longer') {
+      target = Math.max(m.data.length, n.data.length);
+    } else if (length === 'shorter') {
+      target = Math.min(m.data.length, n.data.length);
+    } else {
+      target = length;
+    }
+    const morphs = [resample(m, target), resample(n, target)];
+    return {
+      value: compute(metric, morphs[0], morphs[1], options),
+      alignment,
+      length: target
+    };
+  } else if (alignment === 'dtw') {
+    const { path, morphs } = dtw(m, n);
+    return {
+      value: compute(metric, morphs[0], morphs[1], options),
+      alignment,
+      path
+    };
+  } else if (alignment === 'offset') {
+    const { value, offset, longer } = bestOffset(m, n, metric, options);
+    return { value, alignment, offset, longer };
+  } else {
+    throw new Error(`Unknown alignment strategy: ${alignment}`);
+  }
+}
+
+export { resample, dtw, bestOffset, alignedMetric }
+
+export type { AlignmentStrategy }
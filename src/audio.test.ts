@@ -0,0 +1,157 @@
+import { MorphologicalMetric } from './morphs';
+import {
+  parseWav,
+  mixDown,
+  frameStarts,
+  frameTimes,
+  rms,
+  zeroCrossingRate,
+  spectralCentroid,
+  yin,
+  audioToMorph
+} from './audio';
+
+// Builds a canonical 44-byte-header WAV file
+const encodeWav = (
+  channels: number[][],
+  sampleRate: number,
+  { bits = 16, float = false }: { bits?: number, float?: boolean } = {}
+) => {
+  const bytesPerSample = bits / 8;
+  const frames = channels[0].length;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const text = (offset: number, s: string) => {
+    [...s].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  };
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, float ? 3 : 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bits, true);
+  text(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((channel, c) => {
+      const offset = 44 + i * blockAlign + c * bytesPerSample;
+      const v = channel[i];
+      if (float) {
+        view.setFloat32(offset, v, true);
+      } else if (bits === 8) {
+        view.setUint8(offset, Math.round(v * 127) + 128);
+      } else if (bits === 16) {
+        view.setInt16(offset, Math.round(v * 32767), true);
+      } else if (bits === 24) {
+        const int = Math.round(v * 8388607);
+        view.setUint8(offset, int & 0xff);
+        view.setUint8(offset + 1, (int >> 8) & 0xff);
+        view.setInt8(offset + 2, int >> 16);
+      }
+    });
+  }
+  return new Uint8Array(view.buffer);
+}
+
+const sine = (
+  frequency: number,
+  sampleRate: number,
+  length: number,
+  amplitude: (i: number) => number = () => 0.5
+) => {
+  return [...Array(length)].map((_, i) => {
+    return amplitude(i) * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  });
+}
+
+describe('Audio features', () => {
+  const sampleRate = 8000;
+
+  test('Reads PCM and float WAV files', () => {
+    const samples = [0, 0.5, -0.5, 0.25, -1];
+    [8, 16, 24].forEach(bits => {
+      const wav = parseWav(encodeWav([samples], sampleRate, { bits }));
+      expect(wav.sampleRate).toEqual(sampleRate);
+      expect(wav.bitsPerSample).toEqual(bits);
+      expect(wav.format).toEqual('pcm');
+      [...wav.channels[0]].forEach((v, i) => {
+        expect(v).toBeCloseTo(samples[i], 1);
+      });
+    });
+    const stereo = parseWav(encodeWav(
+      [samples, samples.map(v => -v)],
+      sampleRate,
+      { bits: 32, float: true }
+    ));
+    expect(stereo.format).toEqual('float');
+    expect(stereo.channels).toHaveLength(2);
+    expect(stereo.channels[1][1]).toEqual(-0.5);
+    expect([...mixDown(stereo)]).toEqual([0, 0, 0, 0, 0]);
+    const bytes = encodeWav([samples], sampleRate, { bits: 16 });
+    expect(parseWav(bytes.slice().buffer)).toEqual(parseWav(bytes));
+    expect(() => parseWav(new Uint8Array(12))).toThrow('Not a WAV file');
+  })
+
+  test('Frames', () => {
+    expect(frameStarts(10, { windowSize: 4, hopSize: 3 })).toEqual([0, 3, 6]);
+    expect(frameTimes(10, 2, { windowSize: 4, hopSize: 3 }))
+      .toEqual([1, 2.5, 4]);
+    expect(() => frameStarts(10, { hopSize: 0 })).toThrow();
+  })
+
+  test('Frame features', () => {
+    const frame = Float64Array.from(sine(1000, sampleRate, 1024));
+    expect(rms(frame)).toBeCloseTo(0.5 / 2 ** 0.5, 3);
+    // a sine crosses zero twice per period
+    expect(zeroCrossingRate(frame)).toBeCloseTo(2 * 1000 / sampleRate, 2);
+    expect(spectralCentroid(frame, sampleRate)).toBeCloseTo(1000, -1);
+    expect(spectralCentroid(new Float64Array(8), sampleRate)).toEqual(0);
+    expect(() => spectralCentroid(new Float64Array(6), sampleRate)).toThrow();
+    const a3 = Float64Array.from(sine(220, sampleRate, 1024));
+    expect(yin(a3, sampleRate)).toBeCloseTo(220, 0);
+    expect(yin(new Float64Array(1024), sampleRate)).toBeUndefined();
+  })
+
+  test('Compares the loudness contours of two takes', () => {
+    const length = 8000;
+    const crescendo = (i: number) => 0.1 + 0.8 * i / length;
+    const takeA = encodeWav([sine(440, sampleRate, length, crescendo)],
+      sampleRate);
+    const takeB = encodeWav([sine(330, sampleRate, length, crescendo)],
+      sampleRate);
+    const opts = { windowSize: 1024, hopSize: 1024 };
+    const a = audioToMorph(takeA, opts);
+    const b = audioToMorph(takeB, opts);
+    expect(a.data).toHaveLength(7);
+    expect(a.data.every((v, i) => i === 0 || v > a.data[i - 1])).toBe(true);
+    const mm = new MorphologicalMetric([a, b]);
+    expect(mm.OLD()).toEqual(0);
+    expect(mm.OLMScaled()).toBeLessThan(0.1);
+    const db = audioToMorph(takeA, { ...opts, decibels: true });
+    expect(db.data[0]).toBeCloseTo(20 * Math.log10(a.data[0]));
+  })
+
+  test('Pitch tracks', () => {
+    const length = 4096;
+    const toneThenSilence = [
+      ...sine(200, sampleRate, length / 2),
+      ...Array(length / 2).fill(0)
+    ];
+    const wav = encodeWav([toneThenSilence], sampleRate);
+    const opts = { feature: 'yin' as const, windowSize: 512, hopSize: 512 };
+    const held = audioToMorph(wav, opts);
+    expect(held.data).toHaveLength(8);
+    held.data.forEach(v => expect(v).toBeCloseTo(200, -1));
+    const zeros = audioToMorph(wav, { ...opts, unvoiced: 'zero' });
+    expect(zeros.data.slice(4)).toEqual([0, 0, 0, 0]);
+    const silent = encodeWav([Array(length).fill(0)], sampleRate);
+    expect(() => audioToMorph(silent, opts)).toThrow();
+    expect(() => audioToMorph(wav, { channel: 1 })).toThrow();
+  })
+})
@@ -0,0 +1,336 @@
+import { Morph } from './morphs';
+
+// WAV (RIFF PCM) import and frame-based audio features. Each frame of a
+// recording gives one point of a Morph, so that e.g. the loudness contours of
+// two takes can be compared with OLMScaled or OLD.
+
+type WavFile = {
+  sampleRate: number,
+  bitsPerSample: number,
+  format: 'pcm' | 'float',
+  channels: Float64Array[] // samples in [-1, 1], one array per channel
+};
+
+type AudioFeature = 'rms' | 'spectral centroid' | 'zero crossing rate' | 'yin';
+
+type FrameOptions = {
+  windowSize?: number, // samples per frame
+  hopSize?: number // samples between frame starts
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const ascii = (view: DataView, offset: number, length: number) => {
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    out += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return out;
+}
+
+const parseWav = (input: Uint8Array | ArrayBuffer): WavFile => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || ascii(view, 0, 4) !== 'RIFF' ||
+    ascii(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+  let fmt: {
+    code: number,
+    channels: number,
+    sampleRate: number,
+    blockAlign: number,
+    bitsPerSample: number
+  } | undefined;
+  let data: { offset: number, size: number } | undefined;
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const id = ascii(view, pos, 4);
+    const size = view.getUint32(pos + 4, true);
+    const body = pos + 8;
+    if (id === 'fmt ') {
+      let code = view.getUint16(body, true);
+      if (code === WAVE_FORMAT_EXTENSIBLE) {
+        // the format code is the first two bytes of the subformat GUID
+        code = view.getUint16(body + 24, true);
+      }
+      fmt = {
+        code,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      // some writers leave the size unset when streaming
+      data = { offset: body, size: Math.min(size, bytes.length - body) };
+    }
+    pos = body + size + (size % 2); // chunks are padded to an even size
+  }
+  if (fmt === undefined) {
+    throw new Error('WAV file has no fmt chunk');
+  }
+  if (data === undefined) {
+    throw new Error('WAV file has no data chunk');
+  }
+  const { code, channels, sampleRate, blockAlign, bitsPerSample } = fmt;
+  const float = code === WAVE_FORMAT_IEEE_FLOAT;
+  if (code !== WAVE_FORMAT_PCM && !float) {
+    throw new Error(`Unsupported WAV format ${code}`);
+  }
+  if (float ? ![32, 64].includes(bitsPerSample) :
+    ![8, 16, 24, 32].includes(bitsPerSample)) {
+    throw new Error(`Unsupported bits per sample: ${bitsPerSample}`);
+  }
+  const bytesPerSample = bitsPerSample / 8;
+  const read = (offset: number) => {
+    if (float) {
+      return bitsPerSample === 32 ?
+        view.getFloat32(offset, true) :
+        view.getFloat64(offset, true);
+    }
+    switch (bitsPerSample) {
+      case 8: return (view.getUint8(offset) - 128) / 128; // unsigned
+      case 16: return view.getInt16(offset, true) / 32768;
+      case 24: {
+        const v = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) |
+          (view.getInt8(offset + 2) << 16);
+        return v / 8388608;
+      }
+      default: return view.getInt32(offset, true) / 2147483648;
+    }
+  };
+  const frames = Math.floor(data.size / blockAlign);
+  const out = [...Array(channels)].map(() => new Float64Array(frames));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      out[c][i] = read(data.offset + i * blockAlign + c * bytesPerSample);
+    }
+  }
+  return {
+    sampleRate,
+    bitsPerSample,
+    format: float ? 'float' : 'pcm',
+    channels: out
+  };
+}
+
+// The mean of all channels
+const mixDown = (wav: WavFile) => {
+  const length = wav.channels[0]?.length ?? 0;
+  const out = new Float64Array(length);
+  wav.channels.forEach(channel => {
+    channel.forEach((v, i) => out[i] += v / wav.channels.length);
+  });
+  return out;
+}
+
+// Start indices of the frames that fit entirely within `length` samples
+const frameStarts = (
+  length: number,
+  { windowSize = 2048, hopSize = 512 }: FrameOptions = {}
+) => {
+  if (!Number.isInteger(windowSize) || windowSize < 2) {
+    throw new Error('Window size must be an integer of at least 2');
+  }
+  if (!Number.isInteger(hopSize) || hopSize < 1) {
+    throw new Error('Hop size must be a positive integer');
+  }
+  const starts: number[] = [];
+  for (let s = 0; s + windowSize <= length; s += hopSize) starts.push(s);
+  return starts;
+}
+
+const rms = (frame: Float64Array) => {
+  return (frame.reduce((a, b) => a + b * b, 0) / frame.length) ** 0.5;
+}
+
+// sign changes per pair of adjacent samples
+const zeroCrossingRate = (frame: Float64Array) => {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / (frame.length - 1);
+}
+
+// In-place radix-2 FFT
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) { // bit-reversal permutation
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = -2 * Math.PI / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const [wr, wi] = [Math.cos(angle * k), Math.sin(angle * k)];
+        const [a, b] = [i + k, i + k + len / 2];
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        [re[b], im[b]] = [re[a] - tr, im[a] - ti];
+        [re[a], im[a]] = [re[a] + tr, im[a] + ti];
+      }
+    }
+  }
+}
+
+// The magnitude-weighted mean frequency of the Hann-windowed spectrum, in Hz
+// (0 for a silent frame). The frame length must be a power of 2.
+const spectralCentroid = (frame: Float64Array, sampleRate: number) => {
+  const n = frame.length;
+  if ((n & (n - 1)) !== 0) {
+    throw new Error('Window size must be a power of 2 for spectral features');
+  }
+  const re = frame.map((v, i) => {
+    return v * 0.5 * (1 - Math.cos(2 * Math.PI * i / (n - 1)));
+  });
+  const im = new Float64Array(n);
+  fft(re, im);
+  let weighted = 0, total = 0;
+  for (let k = 0; k <= n / 2; k++) {
+    const magnitude = Math.hypot(re[k], im[k]);
+    weighted += k * sampleRate / n * magnitude;
+    total += magnitude;
+  }
+  return total === 0 ? 0 : weighted / total;
+}
+
+// YIN fundamental frequency estimate (de Cheveigné & Kawahara, 2002), in Hz:
+// the first lag whose cumulative mean normalized difference falls below
+// `threshold`, refined by parabolic interpolation. Returns undefined for an
+// unvoiced frame.
+const yin = (
+  frame: Float64Array,
+  sampleRate: number,
+  {
+    threshold = 0.1,
+    minFrequency = 50,
+    maxFrequency = 1000
+  }: {
+    threshold?: number,
+    minFrequency?: number,
+    maxFrequency?: number
+  } = {}
+) => {
+  const half = Math.floor(frame.length / 2);
+  const maxLag = Math.min(half - 1, Math.floor(sampleRate / minFrequency));
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  if (maxLag <= minLag) {
+    throw new Error('The window is too short for the frequency range');
+  }
+  const cmnd = new Float64Array(maxLag + 2);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let d = 0;
+    for (let i = 0; i < half; i++) {
+      const diff = frame[i] - frame[i + lag];
+      d += diff * diff;
+    }
+    running += d;
+    cmnd[lag] = running === 0 ? 1 : d * lag / running;
+  }
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (cmnd[lag] >= threshold) continue;
+    while (lag < maxLag && cmnd[lag + 1] < cmnd[lag]) lag++;
+    const [a, b, c] = [cmnd[lag - 1], cmnd[lag], cmnd[lag + 1]];
+    const denom = a - 2 * b + c;
+    const shift = denom === 0 ? 0 : (a - c) / (2 * denom);
+    return sampleRate / (lag + shift);
+  }
+  return undefined;
+}
+
+// One value of `feature` per frame of a recording (mixed down to mono unless
+// a channel is chosen). RMS can be given in decibels (full scale). Unvoiced
+// YIN frames hold the nearest voiced value, or are 0 with `unvoiced: 'zero'`.
+const audioToMorph = (
+  audio: Uint8Array | ArrayBuffer | WavFile,
+  {
+    feature = 'rms',
+    windowSize = 2048,
+    hopSize = 512,
+    channel = undefined,
+    decibels = false,
+    threshold = 0.1,
+    minFrequency = 50,
+    maxFrequency = 1000,
+    unvoiced = 'hold'
+  }: FrameOptions & {
+    feature?: AudioFeature,
+    channel?: number,
+    decibels?: boolean,
+    threshold?: number, // for YIN
+    minFrequency?: number,
+    maxFrequency?: number,
+    unvoiced?: 'hold' | 'zero'
+  } = {}
+) => {
+  const wav = audio instanceof Uint8Array || audio instanceof ArrayBuffer ?
+    parseWav(audio) :
+    audio;
+  if (channel !== undefined && wav.channels[channel] === undefined) {
+    throw new Error(`There is no channel ${channel}`);
+  }
+  const samples = channel === undefined ? mixDown(wav) : wav.channels[channel];
+  const starts = frameStarts(samples.length, { windowSize, hopSize });
+  if (starts.length < 2) {
+    throw new Error('The recording is too short for 2 frames');
+  }
+  const { sampleRate } = wav;
+  const values = starts.map(s => {
+    const frame = samples.subarray(s, s + windowSize);
+    if (feature === 'rms') {
+      const value = rms(frame);
+      return decibels ? 20 * Math.log10(Math.max(value, 1e-6)) : value;
+    } else if (feature === 'zero crossing rate') {
+      return zeroCrossingRate(frame);
+    } else if (feature === 'spectral centroid') {
+      return spectralCentroid(frame, sampleRate);
+    }
+    return yin(frame, sampleRate, { threshold, minFrequency, maxFrequency });
+  });
+  const voiced = values.filter(v => v !== undefined) as number[];
+  if (voiced.length === 0) {
+    throw new Error('No frame has a detectable pitch');
+  }
+  let last = voiced[0];
+  return new Morph(values.map(v => {
+    if (v !== undefined) return last = v;
+    return unvoiced === 'zero' ? 0 : last;
+  }));
+}
+
+// The time in seconds of the centre of each frame
+const frameTimes = (
+  length: number,
+  sampleRate: number,
+  { windowSize = 2048, hopSize = 512 }: FrameOptions = {}
+) => {
+  return frameStarts(length, { windowSize, hopSize }).map(s => {
+    return (s + windowSize / 2) / sampleRate;
+  });
+}
+
+export {
+  parseWav,
+  mixDown,
+  frameStarts,
+  frameTimes,
+  rms,
+  zeroCrossingRate,
+  spectralCentroid,
+  yin,
+  audioToMorph
+}
+
+export type { WavFile, AudioFeature, FrameOptions }
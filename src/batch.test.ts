@@ -0,0 +1,77 @@
+import { Morph } from './morphs';
+import { compute, listMetrics } from './registry';
+import { BatchEngine } from './batch';
+import { uniformMorph } from './generators';
+import { seededRandom } from './random';
+
+describe('Batch engine', () => {
+  const random = seededRandom(24);
+  const morphs = [...Array(4)].map(() => uniformMorph(12, { random }));
+  const fast = listMetrics().map(info => info.name)
+    .filter(name => BatchEngine.hasFastPath(name));
+
+  test('Matches the registry', () => {
+    expect(fast).toHaveLength(20);
+    const engine = new BatchEngine();
+    const [m, n] = morphs;
+    const values = engine.compute(m, n, fast);
+    fast.forEach((metric, i) => {
+      expect(values[i]).toBeCloseTo(compute(metric, m, n), 10);
+    });
+    expect(engine.stats.fast).toEqual(20);
+    expect(engine.stats.fallback).toEqual(0);
+  })
+
+  test('Computes intervals on the fly for long morphs', () => {
+    const [m, n] = morphs;
+    const tables = new BatchEngine().compute(m, n, fast);
+    const engine = new BatchEngine({ maxTableSize: 10 });
+    expect(engine.prepare(m).table).toBeUndefined();
+    engine.compute(m, n, fast).forEach((v, i) => {
+      expect(v).toBeCloseTo(tables[i], 10);
+    });
+  })
+
+  test('Falls back to the registry', () => {
+    const engine = new BatchEngine();
+    const [m, n] = morphs;
+    const weighted = new Morph(m.data, {
+      weights: m.data.map((_, i) => i + 1)
+    });
+    const modular = new Morph(m.data, { modulus: 12 });
+    const modularN = new Morph(n.data, { modulus: 12 });
+    const specs = [
+      'OLM' as const,
+      { metric: 'OLM' as const, options: { scaling: 'relative' as const } },
+      'sigmaULM' as const
+    ];
+    const values = engine.compute(m, n, specs);
+    expect(values[1]).toEqual(compute('OLM', m, n, { scaling: 'relative' }));
+    expect(values[2]).toEqual(compute('sigmaULM', m, n));
+    expect(engine.compute(weighted, n, ['OLD'])[0])
+      .toEqual(compute('OLD', weighted, n));
+    expect(engine.compute(modular, modularN, ['OCM'])[0])
+      .toEqual(compute('OCM', modular, modularN));
+    expect(engine.stats).toMatchObject({ fast: 1, fallback: 4 });
+    const short = new Morph([1, 5, 2]);
+    expect(engine.compute(m, short, ['ULM'])[0])
+      .toBeCloseTo(compute('ULM', m, short), 10);
+    expect(() => engine.compute(m, short, ['OLM'])).toThrow();
+  })
+
+  test('Caches prepared morphs', () => {
+    const engine = new BatchEngine();
+    const pairs = engine.allPairs(morphs, ['OLM', 'OCD']);
+    expect(pairs).toHaveLength(6);
+    expect(pairs[5]).toMatchObject({ i: 2, j: 3 });
+    expect(pairs[5].values[1]).toBeCloseTo(compute('OCD', morphs[2], morphs[3]));
+    expect(engine.stats.prepared).toEqual(4);
+    expect(engine.stats.hits).toEqual(8);
+    expect(engine.prepare(morphs[0])).toBe(engine.prepare(morphs[0]));
+    engine.clear();
+    engine.prepare(morphs[0]);
+    expect(engine.stats.prepared).toEqual(5);
+    const rows = engine.computePairs([[morphs[0], morphs[1]]], ['ULD']);
+    expect(rows[0][0]).toBeCloseTo(compute('ULD', morphs[0], morphs[1]));
+  })
+})
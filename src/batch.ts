@@ -0,0 +1,320 @@
+import { Morph } from './morphs';
+import {
+  RegisteredMetric,
+  MetricOptions,
+  compute,
+  getMetric
+} from './registry';
+
+// A batch engine for corpus work. Each morph is prepared once into
+// Float64Array buffers (first differences, their directions and summary
+// statistics, and, for morphs that are not too long, a table of combinatorial
+// intervals), and many metrics are computed for a pair of morphs in one pass
+// over those buffers.
+//
+// Metrics with their default options, between unweighted morphs without a
+// modulus, take the fast path; anything else falls back to `compute`, so the
+// results are always those of the registry. Morphs are cached by identity, so
+// a morph's data must not be changed after it has been prepared (or `clear`
+// must be called).
+
+type BatchMetricSpec<K extends RegisteredMetric = RegisteredMetric> =
+  K | { metric: K, options?: MetricOptions<K> };
+
+type PreparedMorph = {
+  data: Float64Array,
+  absIntervals: Float64Array, // |x[i + 1] - x[i]|
+  directions: Int8Array, // sign of x[i + 1] - x[i]
+  intervalSum: number,
+  intervalMax: number,
+  lcv: [number, number, number], // ups, repetitions, downs
+  // combinatorial intervals x[j] - x[i] for i < j, row by row (cached when
+  // there are at most `maxTableSize` of them)
+  table?: Float64Array,
+  combinatorial?: { sum: number, max: number, ccv: [number, number, number] }
+};
+
+type BatchStats = {
+  prepared: number, // morphs prepared (cache misses)
+  hits: number, // cache hits
+  fast: number, // metric values from the fast path
+  fallback: number // metric values from `compute`
+};
+
+const fastMetrics = new Set<RegisteredMetric>([
+  'OLMOriginal', 'MagnitudeMetric', 'OLMGeneral', 'OLMCanonical', 'OLM',
+  'OLMScaled', 'OLMRelativeScaling', 'ULM', 'ULMAbsoluteScaling',
+  'ULMRelativeScaling', 'maxOLM', 'maxULM', 'OLD', 'ULD', 'OCD', 'UCD', 'OCM',
+  'UCM', 'maxOCM', 'maxUCM'
+]);
+
+const Lm = (l: number) => (l ** 2 - l) / 2;
+
+const normalizeSpec = (spec: BatchMetricSpec) => {
+  return typeof spec === 'string' ? { metric: spec, options: undefined } : spec;
+}
+
+// whether the options (other than verbose) are all left at their defaults
+const hasDefaultOptions = (options?: object) => {
+  return Object.entries(options ?? {})
+    .every(([key, value]) => key === 'verbose' || value === undefined);
+}
+
+class BatchEngine {
+  maxTableSize: number;
+  stats: BatchStats;
+  private cache: WeakMap<Morph, PreparedMorph>;
+
+  constructor({
+    maxTableSize = 2 ** 22
+  }: {
+    // the largest combinatorial table cached per morph, in intervals (8 bytes
+    // each); longer morphs compute their intervals on the fly
+    maxTableSize?: number
+  } = {}) {
+    this.maxTableSize = maxTableSize;
+    this.cache = new WeakMap();
+    this.stats = { prepared: 0, hits: 0, fast: 0, fallback: 0 };
+  }
+
+  clear() {
+    this.cache = new WeakMap();
+  }
+
+  // The cached buffers of a morph, which are shared by every pair it is in, so
+  // they are returned read-only and their contents must not be written
+  prepare(morph: Morph): Readonly<PreparedMorph> {
+    return this.load(morph);
+  }
+
+  private load(morph: Morph): PreparedMorph {
+    const cached = this.cache.get(morph);
+    if (cached !== undefined) {
+      this.stats.hits++;
+      return cached;
+    }
+    this.stats.prepared++;
+    const data = Float64Array.from(morph.data);
+    const L = data.length;
+    const absIntervals = new Float64Array(L - 1);
+    const directions = new Int8Array(L - 1);
+    const lcv: [number, number, number] = [0, 0, 0];
+    let intervalSum = 0, intervalMax = 0;
+    for (let i = 0; i < L - 1; i++) {
+      const d = data[i + 1] - data[i];
+      const a = Math.abs(d);
+      absIntervals[i] = a;
+      directions[i] = Math.sign(d);
+      lcv[d > 0 ? 0 : d === 0 ? 1 : 2]++;
+      intervalSum += a;
+      if (a > intervalMax) intervalMax = a;
+    }
+    const prepared: PreparedMorph = {
+      data,
+      absIntervals,
+      directions,
+      intervalSum,
+      intervalMax,
+      lcv
+    };
+    if (Lm(L) <= this.maxTableSize) {
+      const table = new Float64Array(Lm(L));
+      let k = 0;
+      for (let i = 0; i < L - 1; i++) {
+        for (let j = i + 1; j < L; j++) table[k++] = data[j] - data[i];
+      }
+      prepared.table = table;
+    }
+    this.cache.set(morph, prepared);
+    return prepared;
+  }
+
+  // sum, max and contour vector of a morph's combinatorial intervals
+  private combinatorialStats(p: PreparedMorph) {
+    if (p.combinatorial !== undefined) return p.combinatorial;
+    let sum = 0, max = 0;
+    const ccv: [number, number, number] = [0, 0, 0];
+    const visit = (d: number) => {
+      const a = Math.abs(d);
+      sum += a;
+      if (a > max) max = a;
+      ccv[d > 0 ? 0 : d === 0 ? 1 : 2]++;
+    };
+    if (p.table !== undefined) {
+      p.table.forEach(visit);
+    } else {
+      const { data } = p;
+      for (let i = 0; i < data.length - 1; i++) {
+        for (let j = i + 1; j < data.length; j++) visit(data[j] - data[i]);
+      }
+    }
+    p.combinatorial = { sum, max, ccv };
+    return p.combinatorial;
+  }
+
+  // OCD, OCM and maxOCM in a single pass over corresponding intervals
+  private orderedCombinatorial(p: PreparedMorph, q: PreparedMorph) {
+    let mismatches = 0, sum = 0, max = 0;
+    const visit = (a: number, b: number) => {
+      if (Math.sign(a) !== Math.sign(b)) mismatches++;
+      const diff = Math.abs(Math.abs(a) - Math.abs(b));
+      sum += diff;
+      if (diff > max) max = diff;
+    };
+    if (p.table !== undefined && q.table !== undefined) {
+      const [s, t] = [p.table, q.table];
+      for (let k = 0; k < s.length; k++) visit(s[k], t[k]);
+    } else {
+      const [x, y] = [p.data, q.data];
+      for (let i = 0; i < x.length - 1; i++) {
+        for (let j = i + 1; j < x.length; j++) {
+          visit(x[j] - x[i], y[j] - y[i]);
+        }
+      }
+    }
+    const count = Lm(p.data.length);
+    return { OCD: mismatches / count, OCM: sum / count, maxOCM: max };
+  }
+
+  // OLM-type values, OLD and maxOLM in a single pass over adjacent intervals
+  private orderedLinear(p: PreparedMorph, q: PreparedMorph) {
+    const [a, b] = [p.absIntervals, q.absIntervals];
+    const [mMax, nMax] = [p.intervalMax, q.intervalMax];
+    let sum = 0, relative = 0, max = 0, mismatches = 0;
+    for (let i = 0; i < a.length; i++) {
+      const diff = Math.abs(a[i] - b[i]);
+      sum += diff;
+      if (diff > max) max = diff;
+      relative += Math.abs(a[i] / mMax - b[i] / nMax);
+      if (p.directions[i] !== q.directions[i]) mismatches++;
+    }
+    const count = a.length;
+    return {
+      OLM: sum / count,
+      OLMScaled: sum / (count * Math.max(mMax, nMax)),
+      OLMRelativeScaling: relative / count,
+      OLD: mismatches / count,
+      maxOLM: max
+    };
+  }
+
+  private fastValue(
+    metric: RegisteredMetric,
+    p: PreparedMorph,
+    q: PreparedMorph,
+    ordered: () => ReturnType<BatchEngine['orderedLinear']>,
+    combinatorial: () => ReturnType<BatchEngine['orderedCombinatorial']>
+  ): number {
+    const mMean = p.intervalSum / p.absIntervals.length;
+    const nMean = q.intervalSum / q.absIntervals.length;
+    switch (metric) {
+      case 'OLMOriginal':
+      case 'MagnitudeMetric':
+      case 'OLMGeneral':
+      case 'OLMCanonical':
+      case 'OLM':
+        return ordered().OLM;
+      case 'OLMScaled':
+      case 'OLMRelativeScaling':
+      case 'OLD':
+      case 'maxOLM':
+        return ordered()[metric];
+      case 'ULM':
+        return Math.abs(mMean - nMean);
+      case 'ULMAbsoluteScaling':
+        return Math.abs(mMean - nMean) /
+          Math.max(p.intervalMax, q.intervalMax);
+      case 'ULMRelativeScaling':
+        return Math.abs(mMean / p.intervalMax - nMean / q.intervalMax);
+      case 'maxULM':
+        return Math.abs(p.intervalMax - q.intervalMax);
+      case 'ULD': {
+        const sum = p.lcv.reduce((s, v, i) => s + Math.abs(v - q.lcv[i]), 0);
+        return sum / (2 * p.absIntervals.length);
+      }
+      case 'OCD':
+      case 'OCM':
+      case 'maxOCM':
+        return combinatorial()[metric];
+      case 'UCD': {
+        const [s, t] = [this.combinatorialStats(p), this.combinatorialStats(q)];
+        const sum = s.ccv.reduce((a, v, i) => a + Math.abs(v - t.ccv[i]), 0);
+        return sum / (2 * Lm(p.data.length));
+      }
+      case 'UCM': {
+        const [s, t] = [this.combinatorialStats(p), this.combinatorialStats(q)];
+        return Math.abs(
+          s.sum / Lm(p.data.length) - t.sum / Lm(q.data.length)
+        );
+      }
+      case 'maxUCM': {
+        const [s, t] = [this.combinatorialStats(p), this.combinatorialStats(q)];
+        return Math.abs(s.max - t.max);
+      }
+    }
+    throw new Error(`${metric} has no fast path`);
+  }
+
+  // The value of each metric between m and n, in the order of `metrics`
+  compute(m: Morph, n: Morph, metrics: BatchMetricSpec[]) {
+    const simple = m.weights === undefined && n.weights === undefined &&
+      m.modulus === undefined && n.modulus === undefined;
+    let p: PreparedMorph | undefined, q: PreparedMorph | undefined;
+    let linear: ReturnType<BatchEngine['orderedLinear']> | undefined;
+    let comb: ReturnType<BatchEngine['orderedCombinatorial']> | undefined;
+    return metrics.map(spec => {
+      const { metric, options } = normalizeSpec(spec);
+      const info = getMetric(metric);
+      const sameLength = m.data.length === n.data.length;
+      if (!sameLength && !info.unequalLength) {
+        throw new Error(
+          `${metric} requires morphs with the same number of points`
+        );
+      }
+      const fast = simple && fastMetrics.has(metric) &&
+        hasDefaultOptions(options) &&
+        (sameLength || info.unequalLength && !info.ordered);
+      if (!fast) {
+        this.stats.fallback++;
+        return compute(metric, m, n, options);
+      }
+      this.stats.fast++;
+      p = p ?? this.load(m);
+      q = q ?? this.load(n);
+      const [pp, qq] = [p, q];
+      return this.fastValue(
+        metric,
+        pp,
+        qq,
+        () => linear = linear ?? this.orderedLinear(pp, qq),
+        () => comb = comb ?? this.orderedCombinatorial(pp, qq)
+      );
+    });
+  }
+
+  // compute() for each pair
+  computePairs(pairs: [Morph, Morph][], metrics: BatchMetricSpec[]) {
+    return pairs.map(([m, n]) => this.compute(m, n, metrics));
+  }
+
+  // compute() for every pair of morphs i < j
+  allPairs(morphs: Morph[], metrics: BatchMetricSpec[]) {
+    const out: { i: number, j: number, values: number[] }[] = [];
+    for (let i = 0; i < morphs.length - 1; i++) {
+      for (let j = i + 1; j < morphs.length; j++) {
+        out.push({ i, j, values: this.compute(morphs[i], morphs[j], metrics) });
+      }
+    }
+    return out;
+  }
+
+  // whether a metric is computed without the registry for these options
+  static hasFastPath(spec: BatchMetricSpec) {
+    const { metric, options } = normalizeSpec(spec);
+    return fastMetrics.has(metric) && hasDefaultOptions(options);
+  }
+}
+
+export { BatchEngine }
+
+export type { BatchMetricSpec, PreparedMorph, BatchStats }
@@ -0,0 +1,97 @@
+import { Morph } from './morphs';
+import { compute } from './registry';
+import { runCli, parseMorphs, parseArgs } from './cli';
+
+describe('Command-line interface', () => {
+  const files: Record<string, string> = {
+    'a.json': '{ "m": [1, 5, 12, 2, 9, 6], "n": [7, 6, 4, 9, 8, 1] }',
+    'b.csv': 'x,1,2,3\ny,3,2,1\n',
+    'c.txt': '# two morphs\n1 2 3\n\n4, 6, 5\n',
+    'd.txt': '1 2\n2 1\n3 3\n'
+  };
+  const readFile = (path: string) => files[path];
+  const m = new Morph([1, 5, 12, 2, 9, 6]);
+  const n = new Morph([7, 6, 4, 9, 8, 1]);
+
+  test('Parses JSON, CSV and number lists', () => {
+    const json = parseMorphs('[[1, 2], {"name": "q", "data": [3, 4]}]', 'json');
+    expect(json.map(x => x.name)).toEqual(['0', 'q']);
+    expect(json[1].morph.data).toEqual([3, 4]);
+    const csv = parseMorphs(files['b.csv'], 'csv');
+    expect(csv.map(x => [x.name, x.morph.data])).toEqual([
+      ['x', [1, 2, 3]],
+      ['y', [3, 2, 1]]
+    ]);
+    const list = parseMorphs(files['c.txt'], 'list');
+    expect(list.map(x => x.morph.data)).toEqual([[1, 2, 3], [4, 6, 5]]);
+    expect(() => parseMorphs('1 2 x', 'list')).toThrow('Not a number');
+    expect(() => parseMorphs('[[1, 2, 3], null]', 'json'))
+      .toThrow('Morph 1 is not an array of numbers');
+    expect(() => parseMorphs('[[1, 2, 3], 4]', 'json'))
+      .toThrow('Morph 1 is not an array of numbers');
+  })
+
+  test('Parses metric options from flags', () => {
+    const args = parseArgs([
+      '-m', 'OLM,OLMGeneralizedInterval',
+      '--scaling', 'absolute',
+      '--m-interval-form=fundamental value',
+      '--delta', 'intervalClass',
+      '--no-squared',
+      'a.json'
+    ]);
+    expect(args.metrics).toEqual(['OLM', 'OLMGeneralizedInterval']);
+    expect(args.files).toEqual(['a.json']);
+    expect(args.options.scaling).toEqual('absolute');
+    expect(args.options.mIntervalForm).toEqual('fundamental value');
+    expect(typeof args.options.delta).toEqual('function');
+    expect(args.options.squared).toEqual(false);
+    expect(() => parseArgs(['--bogus'])).toThrow('Unknown option');
+    expect(() => parseArgs(['--order', 'two'])).toThrow('must be a number');
+    expect(() => parseArgs(['--delta', 'toString']))
+      .toThrow('Unknown function');
+    expect(() => parseArgs(['--weights', '1,x,1']))
+      .toThrow('must be a list of numbers');
+    expect(parseArgs(['--distance-weights', '1, 0.5']).options.distanceWeights)
+      .toEqual([1, 0.5]);
+  })
+
+  test('Computes all pairs of a single file', () => {
+    const args = ['-m', 'OLM', '--scaling', 'absolute', '-f', 'json', 'a.json'];
+    const value = compute('OLM', m, n, { scaling: 'absolute' });
+    expect(JSON.parse(runCli(args, readFile))).toEqual([
+      { m: 'm', n: 'n', values: { OLM: value } }
+    ]);
+  })
+
+  test('Compares two files row by row, or all pairs', () => {
+    const args = ['-m', 'OLM,OCM', '-f', 'csv', 'b.csv', 'c.txt'];
+    const csv = runCli(args, readFile);
+    const lines = csv.trim().split('\n');
+    expect(lines[0]).toEqual('m,n,OLM,OCM');
+    expect(lines[1].startsWith('x,0,')).toBe(true);
+    expect(lines.length).toEqual(3);
+    const all = runCli(['-m', 'OLM', '--all-pairs', 'b.csv', 'c.txt'], readFile);
+    expect(all.trim().split('\n').length).toEqual(2 + 4);
+    expect(() => runCli(['-m', 'OLM', 'b.csv', 'd.txt'], readFile))
+      .toThrow('different numbers of morphs');
+  })
+
+  test('Prints an aligned table', () => {
+    const out = runCli(['-m', 'OLD,ULM', 'b.csv'], readFile);
+    expect(out).toEqual([
+      'm  n  OLD  ULM',
+      '-  -  ---  ---',
+      'x  y    1    0',
+      ''
+    ].join('\n'));
+  })
+
+  test('Rejects unknown metrics and unused options', () => {
+    expect(() => runCli(['-m', 'XYZ', 'a.json'], readFile))
+      .toThrow('Unknown metric');
+    expect(() => runCli(['-m', 'ULD', '--order', '2', 'a.json'], readFile))
+      .toThrow('not used by ULD');
+    expect(runCli(['--list'])).toContain('OLM');
+  })
+})
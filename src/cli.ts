@@ -0,0 +1,346 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { Morph, delta } from './morphs';
+import {
+  listMetrics,
+  getMetric,
+  compute,
+  RegisteredMetric,
+  OptionSchema
+} from './registry';
+
+// Command-line interface: reads morphs from JSON, CSV or plain number list
+// files and computes named metrics between them.
+
+type InputFormat = 'json' | 'csv' | 'list';
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+type NamedMorph = { name: string, morph: Morph };
+
+type PairResult = { m: string, n: string, values: Record<string, number> };
+
+const usage = `Usage: morphmetrics [options] <file> [file2]
+
+Computes one or more metrics between morphs. With one file, every pair of
+morphs in it is compared; with two, the i-th morph of each file is compared
+(or every morph of one with every morph of the other, with --all-pairs).
+
+Options:
+  -m, --metric <names>     comma separated metric names (required)
+  -f, --format <format>    output format: table (default), json or csv
+  --input-format <format>  json, csv or list (default: from file extension)
+  --all-pairs              compare every morph of file with every morph of file2
+  --list                   list the available metrics and their options
+  -h, --help               show this message
+
+Metric options are passed as flags, e.g. --scaling absolute, --order 2,
+--delta intervalClass, --m-interval-form 'fundamental value', --squared or
+--no-squared. Options apply to each listed metric that accepts them.
+Functions (delta, psi) are named after the members of \`delta\`: ${
+  Object.keys(delta).join(', ')
+}.
+`;
+
+const camelCase = (flag: string) => {
+  return flag.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+const kebabCase = (key: string) => {
+  return key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+// every option any metric accepts, except verbose, which has no meaning when
+// only values are printed
+const optionSchemas = () => {
+  const out = new Map<string, OptionSchema>();
+  listMetrics().forEach(info => {
+    Object.entries(info.options).forEach(([key, schema]) => {
+      if (key !== 'verbose' && !out.has(key)) out.set(key, schema);
+    });
+  });
+  return out;
+}
+
+const isNumeric = (str: string) => {
+  return str.trim() !== '' && !Number.isNaN(Number(str));
+}
+
+const rowsToMorphs = (rows: string[][]) => {
+  return rows.map((cells, i) => {
+    let name = String(i);
+    if (!isNumeric(cells[0])) {
+      name = cells[0].replace(/^"(.*)"$/, '$1');
+      cells = cells.slice(1);
+    }
+    const bad = cells.find(cell => !isNumeric(cell));
+    if (bad !== undefined) {
+      throw new Error(`Not a number in row ${i + 1}: ${bad}`);
+    }
+    return { name, morph: new Morph(cells.map(Number)) };
+  });
+}
+
+// Reads morphs from text. JSON may be an array of number arrays, an array of
+// { name, data } objects, or an object mapping names to number arrays. CSV and
+// list input have one morph per line, optionally starting with a name; lists
+// are separated by whitespace or commas. Blank lines and lines starting with #
+// are ignored.
+const parseMorphs = (text: string, format: InputFormat): NamedMorph[] => {
+  if (format === 'json') {
+    const json = JSON.parse(text);
+    const entries: [string, unknown][] = Array.isArray(json) ?
+      json.map((item, i) => {
+        // anything other than an array or an object is reported below
+        if (Array.isArray(item) || typeof item !== 'object' || item === null) {
+          return [String(i), item];
+        }
+        return [String(item.name ?? i), item.data];
+      }) :
+      Object.entries(json);
+    return entries.map(([name, data]) => {
+      if (!Array.isArray(data) || data.some(v => typeof v !== 'number')) {
+        throw new Error(`Morph ${name} is not an array of numbers`);
+      }
+      return { name, morph: new Morph(data) };
+    });
+  }
+  const separator = format === 'csv' ? /\s*,\s*/ : /[\s,]+/;
+  const rows = text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => line.split(separator));
+  return rowsToMorphs(rows);
+}
+
+const inputFormatOf = (path: string): InputFormat => {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.csv')) return 'csv';
+  return 'list';
+}
+
+const parseOptionValue = (key: string, raw: string, schema: OptionSchema) => {
+  if (schema.type === 'number') {
+    if (!isNumeric(raw)) {
+      throw new Error(`Option --${kebabCase(key)} must be a number`);
+    }
+    return Number(raw);
+  } else if (schema.type === 'number[]') {
+    const items = raw.split(',');
+    if (!items.every(isNumeric)) {
+      throw new Error(`Option --${kebabCase(key)} must be a list of numbers`);
+    }
+    return items.map(Number);
+  } else if (schema.type === 'function') {
+    if (!Object.prototype.hasOwnProperty.call(delta, raw)) {
+      throw new Error(`Unknown function for --${kebabCase(key)}: ${raw}`);
+    }
+    return delta[raw as keyof typeof delta];
+  } else {
+    return raw;
+  }
+}
+
+const parseArgs = (args: string[]) => {
+  const schemas = optionSchemas();
+  const parsed = {
+    metrics: [] as string[],
+    format: 'table' as OutputFormat,
+    inputFormat: undefined as InputFormat | undefined,
+    allPairs: false,
+    list: false,
+    help: false,
+    files: [] as string[],
+    options: {} as Record<string, unknown>
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      parsed.files.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    const value = eq === -1 ? undefined : arg.slice(eq + 1);
+    const next = () => {
+      if (value !== undefined) return value;
+      if (i + 1 >= args.length) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return args[++i];
+    };
+    if (flag === '-m' || flag === '--metric') {
+      parsed.metrics.push(...next().split(',').map(s => s.trim()));
+    } else if (flag === '-f' || flag === '--format') {
+      parsed.format = next() as OutputFormat;
+      if (!['table', 'json', 'csv'].includes(parsed.format)) {
+        throw new Error(`Unknown output format: ${parsed.format}`);
+      }
+    } else if (flag === '--input-format') {
+      parsed.inputFormat = next() as InputFormat;
+      if (!['json', 'csv', 'list'].includes(parsed.inputFormat)) {
+        throw new Error(`Unknown input format: ${parsed.inputFormat}`);
+      }
+    } else if (flag === '--all-pairs') {
+      parsed.allPairs = true;
+    } else if (flag === '--list') {
+      parsed.list = true;
+    } else if (flag === '-h' || flag === '--help') {
+      parsed.help = true;
+    } else if (flag.startsWith('--no-') &&
+        schemas.get(camelCase(flag.slice(5)))?.type === 'boolean') {
+      parsed.options[camelCase(flag.slice(5))] = false;
+    } else if (flag.startsWith('--') && schemas.has(camelCase(flag.slice(2)))) {
+      const key = camelCase(flag.slice(2));
+      const schema = schemas.get(key)!;
+      if (schema.type === 'boolean') {
+        parsed.options[key] = value === undefined ? true : value === 'true';
+      } else {
+        parsed.options[key] = parseOptionValue(key, next(), schema);
+      }
+    } else {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return parsed;
+}
+
+// the subset of the given options that a metric accepts
+const optionsFor = (
+  metric: RegisteredMetric,
+  options: Record<string, unknown>
+) => {
+  const accepted = getMetric(metric).options;
+  return Object.fromEntries(
+    Object.entries(options).filter(([key]) => key in accepted)
+  );
+}
+
+const pairs = (
+  a: NamedMorph[],
+  b: NamedMorph[] | undefined,
+  allPairs: boolean
+) => {
+  const out: [NamedMorph, NamedMorph][] = [];
+  if (b === undefined) {
+    a.forEach((m, i) => a.slice(i + 1).forEach(n => out.push([m, n])));
+  } else if (allPairs) {
+    a.forEach(m => b.forEach(n => out.push([m, n])));
+  } else {
+    if (a.length !== b.length) {
+      throw new Error(
+        'Files have different numbers of morphs ' +
+        `(${a.length} and ${b.length}); use --all-pairs to compare every ` +
+        'morph of one with every morph of the other'
+      );
+    }
+    a.forEach((m, i) => out.push([m, b[i]]));
+  }
+  return out;
+}
+
+const csvCell = (cell: string) => {
+  return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+const formatResults = (
+  results: PairResult[],
+  metrics: string[],
+  format: OutputFormat
+) => {
+  if (format === 'json') {
+    return JSON.stringify(results, null, 2) + '\n';
+  }
+  const header = ['m', 'n', ...metrics];
+  const rows = results.map(({ m, n, values }) => [
+    m,
+    n,
+    ...metrics.map(metric => {
+      const value = values[metric];
+      return String(format === 'table' ? Number(value.toPrecision(6)) : value);
+    })
+  ]);
+  if (format === 'csv') {
+    const lines = [header, ...rows].map(row => row.map(csvCell).join(','));
+    return lines.join('\n') + '\n';
+  }
+  const widths = header.map((_, col) => {
+    return Math.max(...[header, ...rows].map(row => row[col].length));
+  });
+  const line = (row: string[]) => {
+    return row.map((cell, col) => {
+      // names are left aligned, values right aligned
+      return col < 2 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]);
+    }).join('  ').trimEnd();
+  };
+  const rule = widths.map(w => '-'.repeat(w)).join('  ');
+  return [line(header), rule, ...rows.map(line)].join('\n') + '\n';
+}
+
+const listMetricsText = () => {
+  return listMetrics().map(info => {
+    const options = Object.entries(info.options)
+      .filter(([key]) => key !== 'verbose')
+      .map(([key, schema]) => {
+        const values = schema.values ? ` (${schema.values.join(' | ')})` : '';
+        return `    --${kebabCase(key)} <${schema.type}>${values}`;
+      });
+    const kind = [
+      info.ordered ? 'ordered' : 'unordered',
+      info.combinatorial ? 'combinatorial' : 'linear'
+    ].join(', ');
+    const title = `${info.name}  (${kind}; Polansky, 1996, pg. ${info.page})`;
+    return [title, ...options].join('\n');
+  }).join('\n') + '\n';
+}
+
+// Runs the command line with the given arguments, returning the text to print.
+// Throws on invalid arguments or input.
+const runCli = (
+  args: string[],
+  readFile: (path: string) => string = path => readFileSync(path, 'utf8')
+) => {
+  const parsed = parseArgs(args);
+  if (parsed.help) return usage;
+  if (parsed.list) return listMetricsText();
+  if (parsed.metrics.length === 0) {
+    throw new Error('No metric given; use --metric (or --list to see them)');
+  }
+  if (parsed.files.length < 1 || parsed.files.length > 2) {
+    throw new Error('Expected one or two input files');
+  }
+  const metrics = parsed.metrics.map(name => getMetric(name).name);
+  Object.keys(parsed.options).forEach(key => {
+    if (!metrics.some(metric => key in getMetric(metric).options)) {
+      const flag = `--${kebabCase(key)}`;
+      throw new Error(`Option ${flag} is not used by ${metrics.join(', ')}`);
+    }
+  });
+  const [a, b] = parsed.files.map(path => {
+    const text = readFile(path === '-' ? '/dev/stdin' : path);
+    return parseMorphs(text, parsed.inputFormat ?? inputFormatOf(path));
+  });
+  const results = pairs(a, b, parsed.allPairs).map(([m, n]) => {
+    const values: Record<string, number> = {};
+    metrics.forEach(metric => {
+      const options = optionsFor(metric, parsed.options);
+      values[metric] = compute(metric, m.morph, n.morph, options);
+    });
+    return { m: m.name, n: n.name, values };
+  });
+  return formatResults(results, metrics, parsed.format);
+}
+
+if (require.main === module) {
+  try {
+    process.stdout.write(runCli(process.argv.slice(2)));
+  } catch (err) {
+    process.stderr.write(`morphmetrics: ${(err as Error).message}\n`);
+    process.exitCode = 1;
+  }
+}
+
+export { runCli, parseMorphs, parseArgs, formatResults }
+
+export type { InputFormat, OutputFormat, NamedMorph, PairResult }
@@ -0,0 +1,100 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { CompositeMetric, normalizeValue } from './composite';
+
+describe('Composite metrics', () => {
+  const m = new Morph([1, 5, 12, 2, 9, 6]);
+  const n = new Morph([7, 6, 4, 9, 8, 1]);
+  const mm = new MorphologicalMetric([m, n]);
+  const old = mm.OLD();
+  const scaled = mm.OLMScaled();
+  const ucm = mm.UCM();
+  const components = [
+    { metric: 'OLD' as const, weight: 2 },
+    { metric: 'OLMScaled' as const },
+    { metric: 'UCM' as const, scale: 10 }
+  ];
+
+  test('Normalizes components to [0, 1]', () => {
+    expect(normalizeValue('OLD', 0.4)).toEqual(0.4);
+    expect(normalizeValue('UCM', 3)).toEqual(0.75);
+    expect(normalizeValue('UCM', 3, { scale: 10 })).toEqual(0.3);
+    expect(normalizeValue('UCM', 30, { scale: 10 })).toEqual(1);
+  })
+
+  test('Scaled options are normalized by their own range', () => {
+    const absolute = { scaling: 'absolute' as const };
+    expect(normalizeValue('OLM', 0.46, { options: absolute })).toEqual(0.46);
+    expect(normalizeValue('ULM', 0.2, { options: { scaling: 'relative' } }))
+      .toEqual(0.2);
+    expect(normalizeValue('OLM', 1, { options: { scaling: 'none' } }))
+      .toEqual(0.5);
+    const composite = new CompositeMetric('scaled', [
+      { metric: 'OCM', options: absolute },
+      { metric: 'OLM', options: absolute }
+    ]);
+    const result = composite.compute(m, n);
+    result.components.forEach(c => expect(c.normalized).toEqual(c.raw));
+    const expected = (mm.OCM(absolute) + 0.46) / 2;
+    expect(result.value).toBeCloseTo(expected);
+  })
+
+  test('Weighted mean', () => {
+    const composite = new CompositeMetric('contour and size', components);
+    const result = composite.compute(m, n);
+    const expected = (2 * old + scaled + ucm / 10) / 4;
+    expect(result.value).toBeCloseTo(expected);
+    expect(composite.value(m, n)).toEqual(result.value);
+    const total = result.components.reduce((a, c) => a + c.contribution, 0);
+    expect(total).toBeCloseTo(result.value);
+    expect(result.components[0]).toMatchObject({
+      metric: 'OLD',
+      raw: old,
+      normalized: old,
+      weight: 2
+    });
+    expect(result.components[0].share).toBeCloseTo(2 * old / 4 / expected);
+  })
+
+  test('Max and Lp aggregation', () => {
+    const max = new CompositeMetric('max', components, { aggregation: 'max' });
+    const result = max.compute(m, n);
+    // divided by the largest weight
+    expect(result.value).toEqual(Math.max(old, scaled / 2, ucm / 20));
+    expect(result.components.filter(c => c.share === 1)).toHaveLength(1);
+    const heavy = new CompositeMetric('heavy', [
+      { metric: 'OLD', weight: 5 },
+      { metric: 'OLMScaled', weight: 3 }
+    ], { aggregation: 'max' });
+    const bounded = heavy.value(m, new Morph([7, 8, 2, 9, 0, 5]));
+    expect(bounded).toBeGreaterThan(0);
+    expect(bounded).toBeLessThanOrEqual(1);
+
+    const l2 = new CompositeMetric('l2', components, { aggregation: 'lp' });
+    const expected = ((2 * old ** 2 + scaled ** 2 + (ucm / 10) ** 2) / 4) ** 0.5;
+    const lp = l2.compute(m, n);
+    expect(lp.value).toBeCloseTo(expected);
+    const total = lp.components.reduce((a, c) => a + c.contribution, 0);
+    expect(total).toBeCloseTo(lp.value);
+  })
+
+  test('Raw values and options', () => {
+    const composite = new CompositeMetric('raw', [
+      { metric: 'OCM', normalize: false, options: { scaling: 'absolute' } },
+      { metric: 'OLM', normalize: false, options: { scaling: 'absolute' } }
+    ]);
+    const expected = (mm.OCM({ scaling: 'absolute' }) + 0.46) / 2;
+    expect(composite.value(m, n)).toBeCloseTo(expected);
+  })
+
+  test('Validates components', () => {
+    expect(() => new CompositeMetric('empty', [])).toThrow();
+    expect(() => new CompositeMetric('bad', [{ metric: 'XYZ' as 'OLD' }]))
+      .toThrow('Unknown metric');
+    expect(() => new CompositeMetric('neg', [{ metric: 'OLD', weight: -1 }]))
+      .toThrow('must not be negative');
+    expect(() => new CompositeMetric('p', components, {
+      aggregation: 'lp',
+      p: 0.5
+    })).toThrow();
+  })
+})
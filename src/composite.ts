@@ -0,0 +1,142 @@
+import { Morph } from './morphs';
+import {
+  RegisteredMetric,
+  MetricOptions,
+  compute,
+  getMetric,
+  metricRange
+} from './registry';
+
+// Composite metrics: several registered metrics, each normalized to [0, 1]
+// and weighted, aggregated into a single distance within [0, 1].
+
+type Aggregation = 'weighted mean' | 'max' | 'lp';
+
+type CompositeComponent<K extends RegisteredMetric = RegisteredMetric> = {
+  metric: K,
+  weight?: number, // defaults to 1
+  options?: MetricOptions<K>,
+  normalize?: boolean, // defaults to true
+  // for metrics without an upper bound, the value that is mapped to 1 (larger
+  // values are clipped); without it, x is mapped to x / (1 + x)
+  scale?: number
+};
+
+type ComponentResult = {
+  metric: RegisteredMetric,
+  raw: number,
+  normalized: number,
+  weight: number,
+  contribution: number, // part of the composite value due to this component
+  share: number // contribution / value
+};
+
+type CompositeResult = { value: number, components: ComponentResult[] };
+
+// Maps a metric value into [0, 1], using the range of the metric (with its
+// options) where it is bounded.
+const normalizeValue = <K extends RegisteredMetric>(
+  metric: K,
+  value: number,
+  {
+    options = undefined,
+    scale = undefined
+  }: {
+    options?: MetricOptions<K>,
+    scale?: number
+  } = {}
+) => {
+  const [lo, hi] = metricRange(metric, options);
+  if (Number.isFinite(lo) && Number.isFinite(hi)) {
+    return Math.min(Math.max((value - lo) / (hi - lo), 0), 1);
+  }
+  const x = Math.max(value - (Number.isFinite(lo) ? lo : 0), 0);
+  return scale === undefined ? x / (1 + x) : Math.min(x / scale, 1);
+}
+
+class CompositeMetric {
+  name: string;
+  components: CompositeComponent[];
+  aggregation: Aggregation;
+  p: number;
+
+  constructor(
+    name: string,
+    components: CompositeComponent[],
+    {
+      aggregation = 'weighted mean',
+      p = 2
+    }: {
+      aggregation?: Aggregation,
+      p?: number // exponent, for 'lp' aggregation
+    } = {}
+  ) {
+    if (components.length === 0) {
+      throw new Error('A composite metric needs at least one component');
+    }
+    components.forEach(c => {
+      getMetric(c.metric);
+      if ((c.weight ?? 1) < 0) {
+        throw new Error(`Weight of ${c.metric} must not be negative`);
+      }
+    });
+    if (components.every(c => (c.weight ?? 1) === 0)) {
+      throw new Error('At least one weight must be greater than 0');
+    }
+    if (aggregation === 'lp' && !(p >= 1)) {
+      throw new Error('p must be at least 1');
+    }
+    this.name = name;
+    this.components = components;
+    this.aggregation = aggregation;
+    this.p = p;
+  }
+
+  // The composite distance between m and n, along with each component's raw
+  // and normalized value and its contribution to the result.
+  compute(m: Morph, n: Morph): CompositeResult {
+    const parts = this.components.map(c => {
+      const raw = compute(c.metric, m, n, c.options);
+      const normalized = c.normalize === false ?
+        raw :
+        normalizeValue(c.metric, raw, { options: c.options, scale: c.scale });
+      return { metric: c.metric, raw, normalized, weight: c.weight ?? 1 };
+    });
+    const totalWeight = parts.reduce((a, b) => a + b.weight, 0);
+    let value: number;
+    let contributions: number[];
+    if (this.aggregation === 'weighted mean') {
+      contributions = parts.map(c => c.weight * c.normalized / totalWeight);
+      value = contributions.reduce((a, b) => a + b, 0);
+    } else if (this.aggregation === 'max') {
+      // divided by the largest weight, so that the value stays within [0, 1]
+      const maxWeight = Math.max(...parts.map(c => c.weight));
+      const weighted = parts.map(c => c.weight * c.normalized / maxWeight);
+      value = Math.max(...weighted);
+      const at = weighted.indexOf(value);
+      contributions = weighted.map((_, i) => i === at ? value : 0);
+    } else {
+      // weighted power mean, which stays within [0, 1]
+      const powered = parts.map(c => c.weight * c.normalized ** this.p);
+      const sum = powered.reduce((a, b) => a + b, 0);
+      value = (sum / totalWeight) ** (1 / this.p);
+      contributions = powered.map(x => sum === 0 ? 0 : value * x / sum);
+    }
+    return {
+      value,
+      components: parts.map((c, i) => ({
+        ...c,
+        contribution: contributions[i],
+        share: value === 0 ? 0 : contributions[i] / value
+      }))
+    };
+  }
+
+  value(m: Morph, n: Morph) {
+    return this.compute(m, n).value;
+  }
+}
+
+export { CompositeMetric, normalizeValue }
+
+export type { Aggregation, CompositeComponent, ComponentResult, CompositeResult }
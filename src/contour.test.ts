@@ -0,0 +1,68 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import {
+  cseg,
+  comparisonMatrix,
+  contourAdjacencySeries,
+  contourAdjacencySeriesVector,
+  csim,
+  contourReduction,
+  contourClasses,
+  contourClass,
+  contourEquivalent
+} from './contour';
+
+describe('Contour theory', () => {
+  test('CSEGs use dense ranks', () => {
+    expect(cseg(new Morph([5, 3, 3, 9]))).toEqual([1, 0, 0, 2]);
+    expect(cseg(new Morph([60, 72, 64, 67]))).toEqual([0, 3, 1, 2]);
+    // Polansky, 1996, note 55, pg. 362
+    expect(new Morph([3, 1, 3, 1]).morrisRanking).toEqual([2, 1, 2, 1]);
+  })
+
+  test('Comparison matrix and adjacency series', () => {
+    const m = new Morph([0, 2, 1, 1]);
+    expect(comparisonMatrix(m)).toEqual([
+      [0, 1, 1, 1],
+      [-1, 0, -1, -1],
+      [-1, 1, 0, 0],
+      [-1, 1, 0, 0]
+    ]);
+    expect(contourAdjacencySeries(m)).toEqual([1, -1, 0]);
+    expect(contourAdjacencySeriesVector(m)).toEqual([1, 1]);
+  })
+
+  test('CSIM is the complement of OCD', () => {
+    const m = new Morph([1, 5, 12, 2, 9, 6]);
+    const n = new Morph([7, 6, 4, 9, 8, 1]);
+    const ocd = new MorphologicalMetric([m, n]).OCD();
+    expect(csim(m, n)).toBeCloseTo(1 - ocd);
+    expect(csim(m, m.transpose(3))).toEqual(1);
+    expect(() => csim(m, new Morph([1, 2]))).toThrow();
+  })
+
+  test('Contour reduction', () => {
+    expect(contourReduction(new Morph([0, 4, 2, 3, 1, 5]))).toEqual({
+      prime: [0, 4, 2, 3, 1, 5],
+      depth: 0
+    });
+    expect(contourReduction(new Morph([0, 1, 2, 1, 3]))).toEqual({
+      prime: [0, 1],
+      depth: 2
+    });
+    const arch = contourReduction(new Morph([1, 3, 4, 5, 5, 4, 2, 0]));
+    expect(arch.prime).toEqual([1, 2, 0]);
+  })
+
+  test('Contour classes', () => {
+    expect(contourClasses(3)).toEqual([[0, 1, 2], [0, 2, 1]]);
+    expect(contourClasses(4)).toHaveLength(8);
+    expect(contourClasses(3, { repetition: true }).length).toBeGreaterThan(2);
+    const cls = contourClass(new Morph([5, 1, 3]));
+    expect(cls.prime).toEqual([0, 2, 1]);
+    expect(cls.index).toEqual(1);
+    expect(cls.members).toHaveLength(4);
+    const m = new Morph([2, 7, 1, 4, 3]);
+    expect(contourEquivalent(m, m.invert().retrograde())).toBe(true);
+    expect(contourEquivalent(m, m.rotate(1))).toBe(false);
+  })
+})
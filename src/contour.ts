@@ -0,0 +1,197 @@
+import { Morph, delta } from './morphs';
+
+// Contour theory, after Friedmann (1985), Morris (1987, 1993) and Marvin &
+// Laprade (1987): contour segments (CSEGs), comparison matrices, contour
+// reduction, similarity and equivalence classes.
+
+type Cseg = number[];
+
+type ContourClass = {
+  prime: Cseg,
+  members: Cseg[], // the distinct P, I, R and RI forms
+  index: number // position of the prime in `contourClasses`, or -1
+};
+
+// Normalized contour segment: each value replaced by its (dense) rank from 0,
+// i.e. the Morris ranking minus 1.
+const cseg = (morph: Morph): Cseg => {
+  return morph.morrisRanking.map(rank => rank - 1);
+}
+
+// Comparison matrix (COM): entry [i][j] is 1 if point j is higher than point
+// i, -1 if lower, and 0 if equal.
+const comparisonMatrix = (morph: Morph) => {
+  const data = morph.data;
+  return data.map(a => data.map(b => delta.sgn(b, a)));
+}
+
+// Contour adjacency series (CAS): the direction of each adjacent interval, 1
+// up, -1 down and 0 for a repetition.
+const contourAdjacencySeries = (morph: Morph) => {
+  const data = morph.data;
+  return data.slice(1).map((b, i) => delta.sgn(b, data[i]));
+}
+
+// Contour adjacency series vector (CASV): the number of ascents and descents.
+const contourAdjacencySeriesVector = (morph: Morph): [number, number] => {
+  const cas = contourAdjacencySeries(morph);
+  return [cas.filter(d => d > 0).length, cas.filter(d => d < 0).length];
+}
+
+// Contour similarity (CSIM): the fraction of the upper triangle of the two
+// comparison matrices that agrees. For morphs of the same length this is
+// 1 - OCD.
+const csim = (m: Morph, n: Morph) => {
+  if (m.data.length !== n.data.length) {
+    throw new Error('CSIM requires morphs with the same number of points');
+  }
+  const [a, b] = [comparisonMatrix(m), comparisonMatrix(n)];
+  let same = 0, total = 0;
+  for (let i = 0; i < a.length - 1; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      if (a[i][j] === b[i][j]) same++;
+      total++;
+    }
+  }
+  return same / total;
+}
+
+const normalize = (values: number[]) => {
+  return values.length < 2 ? [0] : cseg(new Morph(values));
+}
+
+// Morris's (1993) contour reduction algorithm. Maxima and minima are flagged
+// (the first and last points are both), unflagged points are removed, and
+// the maxima of the remaining maxima (and minima of the minima) are flagged
+// again, until every point is flagged. Adjacent repetitions are then merged.
+// Returns the reduced, normalized contour and the number of passes (depth).
+const contourReduction = (morph: Morph) => {
+  let values = morph.data.slice();
+  // flags the points of `among` that are >= (or <=) both of their neighbours
+  // in `among`; the first and last points are always in `among`
+  const flag = (among: boolean[], cmp: (a: number, b: number) => boolean) => {
+    const idxs = values.map((_, i) => i).filter(i => among[i]);
+    const out = values.map(() => false);
+    idxs.forEach((idx, k) => {
+      if (k === 0 || k === idxs.length - 1) {
+        out[idx] = true;
+        return;
+      }
+      const [prev, next] = [values[idxs[k - 1]], values[idxs[k + 1]]];
+      out[idx] = cmp(values[idx], prev) && cmp(values[idx], next);
+    });
+    return out;
+  };
+  const all = values.map(() => true);
+  let maxima = flag(all, (a, b) => a >= b);
+  let minima = flag(all, (a, b) => a <= b);
+  let depth = 0;
+  while (values.some((_, i) => !maxima[i] && !minima[i])) {
+    const keep = values.map((_, i) => maxima[i] || minima[i]);
+    const pick = <T>(arr: T[]) => arr.filter((_, i) => keep[i]);
+    values = pick(values);
+    const [maxAmong, minAmong] = [pick(maxima), pick(minima)];
+    maxima = flag(maxAmong, (a, b) => a >= b);
+    minima = flag(minAmong, (a, b) => a <= b);
+    depth++;
+  }
+  const merged = values.filter((v, i) => i === 0 || v !== values[i - 1]);
+  return { prime: normalize(merged), depth };
+}
+
+const compareCsegs = (a: Cseg, b: Cseg) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// The P, I, R and RI forms of a contour, normalized and without duplicates.
+const contourForms = (morph: Morph) => {
+  const p = cseg(morph);
+  const top = Math.max(...p);
+  const i = p.map(v => top - v);
+  const forms = [p, i, p.slice().reverse(), i.slice().reverse()];
+  const unique = new Map(forms.map(f => [f.join(','), f]));
+  return [...unique.values()];
+}
+
+const catalogs = new Map<string, Cseg[]>();
+
+const maxCardinality = (repetition: boolean) => repetition ? 6 : 8;
+
+// Every contour class of a given cardinality, each represented by the
+// lexicographically smallest of its P, I, R and RI forms, in lexicographic
+// order. With `repetition`, contours with repeated values are included.
+const contourClasses = (
+  cardinality: number,
+  { repetition = false }: { repetition?: boolean } = {}
+) => {
+  const max = maxCardinality(repetition);
+  if (cardinality < 2 || cardinality > max) {
+    throw new Error(`Contour classes are only listed for 2 to ${max} points`);
+  }
+  const key = `${cardinality},${repetition}`;
+  if (catalogs.has(key)) return catalogs.get(key)!;
+  const primes = new Map<string, Cseg>();
+  const current: number[] = [];
+  const used = new Set<number>();
+  const visit = () => {
+    if (current.length === cardinality) {
+      // with repetition, only csegs without gaps in their ranks are kept
+      const values = normalize(current);
+      if (values.some((v, i) => v !== current[i])) return;
+      const prime = contourForms(new Morph(values)).sort(compareCsegs)[0];
+      primes.set(prime.join(','), prime);
+      return;
+    }
+    for (let v = 0; v < cardinality; v++) {
+      if (!repetition && used.has(v)) continue;
+      current.push(v);
+      used.add(v);
+      visit();
+      current.pop();
+      if (!current.includes(v)) used.delete(v);
+    }
+  };
+  visit();
+  const catalog = [...primes.values()].sort(compareCsegs);
+  catalogs.set(key, catalog);
+  return catalog;
+}
+
+// The equivalence class (under inversion, retrograde and retrograde
+// inversion) of a morph's contour, and its position in the catalog of
+// classes of the same cardinality.
+const contourClass = (morph: Morph): ContourClass => {
+  const members = contourForms(morph).sort(compareCsegs);
+  const prime = members[0];
+  const repetition = new Set(prime).size !== prime.length;
+  let index = -1;
+  if (prime.length >= 2 && prime.length <= maxCardinality(repetition)) {
+    const catalog = contourClasses(prime.length, { repetition });
+    index = catalog.findIndex(c => compareCsegs(c, prime) === 0);
+  }
+  return { prime, members, index };
+}
+
+const contourEquivalent = (m: Morph, n: Morph) => {
+  const a = contourClass(m).prime;
+  const b = contourClass(n).prime;
+  return compareCsegs(a, b) === 0;
+}
+
+export {
+  cseg,
+  comparisonMatrix,
+  contourAdjacencySeries,
+  contourAdjacencySeriesVector,
+  csim,
+  contourReduction,
+  contourForms,
+  contourClasses,
+  contourClass,
+  contourEquivalent
+}
+
+export type { Cseg, ContourClass }
@@ -0,0 +1,89 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { 
+  distanceMatrix, 
+  hierarchicalClustering, 
+  cutTree, 
+  kMedoids, 
+  metricValue 
+} from './corpus';
+
+describe('Corpus', () => {
+  const corpus = [
+    new Morph([0, 2, 4, 6]),
+    new Morph([1, 3, 5, 7]),
+    new Morph([0, 2, 4, 5]),
+    new Morph([9, 5, 1, 0]),
+    new Morph([8, 4, 0, 0]),
+  ];
+
+  test('Distance matrix is symmetric with a zero diagonal', () => {
+    const matrix = distanceMatrix(corpus, 'OLMCanonical');
+    expect(matrix).toHaveLength(5);
+    matrix.forEach((row, i) => {
+      expect(row[i]).toEqual(0);
+      row.forEach((d, j) => expect(d).toEqual(matrix[j][i]));
+    });
+    const mm = new MorphologicalMetric([corpus[0], corpus[3]]);
+    expect(matrix[0][3]).toEqual(mm.OLMCanonical());
+    const scaled = distanceMatrix(corpus, 'OLM', { 
+      options: { scaling: 'absolute' } 
+    });
+    expect(scaled[0][3]).toEqual(mm.OLM({ scaling: 'absolute' }));
+  })
+
+  test('Verbose metrics are unwrapped', () => {
+    const mm = new MorphologicalMetric([corpus[0], corpus[3]]);
+    expect(metricValue(mm, 'OLD', { verbose: true })).toEqual(1);
+    const matrix = distanceMatrix(corpus, 'OLD');
+    expect(matrix[0][1]).toEqual(0);
+  })
+
+  test('Unordered metrics on unequal lengths', () => {
+    const morphs = [new Morph([0, 1, 2]), new Morph([0, 1, 2, 1])];
+    expect(() => distanceMatrix(morphs, 'ULDUnequalLengthForm')).toThrow();
+    const matrix = distanceMatrix(morphs, 'ULDUnequalLengthForm', { 
+      ordered: false 
+    });
+    expect(matrix[0][1]).toBeCloseTo(1/3, 8);
+  })
+
+  test('Hierarchical clustering', () => {
+    const matrix = distanceMatrix(corpus, 'OLD');
+    ['single', 'complete', 'average'].forEach(linkage => {
+      const merges = hierarchicalClustering(matrix, { 
+        linkage: linkage as 'single' | 'complete' | 'average'
+      });
+      expect(merges).toHaveLength(4);
+      expect(merges[merges.length - 1].size).toEqual(5);
+      expect(cutTree(merges, 2)).toEqual([0, 0, 0, 1, 1]);
+      expect(cutTree(merges, 1)).toEqual([0, 0, 0, 0, 0]);
+      expect(new Set(cutTree(merges, 5)).size).toEqual(5);
+    });
+    expect(() => cutTree(hierarchicalClustering(matrix), 6)).toThrow();
+  })
+
+  test('Complete vs single linkage distances', () => {
+    const matrix = [
+      [0, 1, 4, 5],
+      [1, 0, 2, 6],
+      [4, 2, 0, 3],
+      [5, 6, 3, 0]
+    ];
+    const single = hierarchicalClustering(matrix, { linkage: 'single' });
+    expect(single.map(m => m.distance)).toEqual([1, 2, 3]);
+    const complete = hierarchicalClustering(matrix, { linkage: 'complete' });
+    expect(complete.map(m => m.distance)).toEqual([1, 3, 6]);
+  })
+
+  test('k-medoids', () => {
+    const matrix = distanceMatrix(corpus, 'OLMCanonical');
+    const { medoids, labels, cost } = kMedoids(matrix, 2);
+    expect(medoids).toHaveLength(2);
+    expect(labels[0]).toEqual(labels[1]);
+    expect(labels[0]).toEqual(labels[2]);
+    expect(labels[3]).toEqual(labels[4]);
+    expect(labels[0]).not.toEqual(labels[3]);
+    expect(cost).toBeGreaterThanOrEqual(0);
+    expect(() => kMedoids(matrix, 0)).toThrow();
+  })
+})
@@ -0,0 +1,197 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import type { RegisteredMetric, MetricOptions } from './registry';
+
+// Corpus level analysis: pairwise distance matrices over many morphs, and
+// clustering of those matrices.
+
+type MetricName = {
+  [K in keyof MorphologicalMetric]: MorphologicalMetric[K] extends
+    (...args: never[]) => unknown ? K : never
+}[keyof MorphologicalMetric];
+
+type Linkage = 'single' | 'complete' | 'average';
+
+type ClusterMerge = {
+  a: number, // cluster ids; ids < n are single morphs, n + i is the ith merge
+  b: number,
+  distance: number,
+  size: number
+};
+
+// Calls a MorphologicalMetric method by name, unwrapping verbose-style
+// `{ value }` results so that every metric yields a plain number.
+const metricValue = <K extends RegisteredMetric>(
+  mm: MorphologicalMetric,
+  metric: K,
+  opts?: MetricOptions<K>
+): number => {
+  const method = mm[metric] as (opts: object) => unknown;
+  const out = method.call(mm, opts ?? {});
+  if (typeof out === 'number') {
+    return out;
+  } else if (out !== null && typeof out === 'object' && 'value' in out) {
+    return (out as { value: number }).value;
+  }
+  throw new Error(`Metric ${metric} did not return a number`);
+}
+
+// Symmetric matrix of distances between every pair of morphs. Only the upper
+// triangle is computed; the diagonal is 0.
+const distanceMatrix = (
+  morphs: Morph[],
+  metric: MetricName,
+  {
+    ordered = true,
+    options = {}
+  }: {
+    ordered?: boolean,
+    options?: object
+  } = {}
+) => {
+  const matrix: number[][] = morphs.map(() => Array(morphs.length).fill(0));
+  for (let i = 0; i < morphs.length - 1; i++) {
+    for (let j = i + 1; j < morphs.length; j++) {
+      const mm = new MorphologicalMetric([morphs[i], morphs[j]], ordered);
+      const d = metricValue(mm, metric, options);
+      matrix[i][j] = d;
+      matrix[j][i] = d;
+    }
+  }
+  return matrix;
+}
+
+const checkMatrix = (matrix: number[][]) => {
+  if (matrix.some(row => row.length !== matrix.length)) {
+    throw new Error('Distance matrix must be square');
+  }
+}
+
+// Agglomerative hierarchical clustering. Returns the list of merges in order,
+// in the same form as a dendrogram / linkage matrix.
+const hierarchicalClustering = (
+  matrix: number[][],
+  { linkage = 'average' }: { linkage?: Linkage } = {}
+) => {
+  checkMatrix(matrix);
+  const n = matrix.length;
+  // active clusters, keyed by id, holding their member indices
+  const clusters = new Map<number, number[]>();
+  for (let i = 0; i < n; i++) clusters.set(i, [i]);
+  const clusterDistance = (a: number[], b: number[]) => {
+    const ds = a.flatMap(i => b.map(j => matrix[i][j]));
+    if (linkage === 'single') {
+      return Math.min(...ds);
+    } else if (linkage === 'complete') {
+      return Math.max(...ds);
+    } else {
+      return ds.reduce((x, y) => x + y, 0) / ds.length;
+    }
+  };
+  const merges: ClusterMerge[] = [];
+  while (clusters.size > 1) {
+    let best = { a: -1, b: -1, distance: Infinity };
+    const ids = [...clusters.keys()];
+    for (let i = 0; i < ids.length - 1; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const d = clusterDistance(clusters.get(ids[i])!, clusters.get(ids[j])!);
+        if (d < best.distance) {
+          best = { a: ids[i], b: ids[j], distance: d };
+        }
+      }
+    }
+    const members = [...clusters.get(best.a)!, ...clusters.get(best.b)!];
+    clusters.delete(best.a);
+    clusters.delete(best.b);
+    clusters.set(n + merges.length, members);
+    merges.push({ ...best, size: members.length });
+  }
+  return merges;
+}
+
+// Cuts a merge list into k flat clusters, returning a label per morph. Labels
+// are numbered in order of each cluster's first member.
+const cutTree = (merges: ClusterMerge[], k: number) => {
+  const n = merges.length + 1;
+  if (k < 1 || k > n) {
+    throw new Error('Number of clusters must be between 1 and the corpus size');
+  }
+  const parent = [...Array(n)].map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : find(parent[i]);
+  const rep = new Map<number, number>(); // cluster id -> representative morph
+  for (let i = 0; i < n; i++) rep.set(i, i);
+  merges.slice(0, n - k).forEach((merge, i) => {
+    const [ra, rb] = [find(rep.get(merge.a)!), find(rep.get(merge.b)!)];
+    parent[rb] = ra;
+    rep.set(n + i, ra);
+  });
+  const labels: number[] = [];
+  const labelOf = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    if (!labelOf.has(root)) labelOf.set(root, labelOf.size);
+    labels.push(labelOf.get(root)!);
+  }
+  return labels;
+}
+
+// k-medoids clustering (PAM): greedy BUILD initialization followed by SWAP
+// iterations until no swap lowers the total cost.
+const kMedoids = (
+  matrix: number[][],
+  k: number,
+  { maxIterations = 100 }: { maxIterations?: number } = {}
+) => {
+  checkMatrix(matrix);
+  const n = matrix.length;
+  if (k < 1 || k > n) {
+    throw new Error('Number of clusters must be between 1 and the corpus size');
+  }
+  const cost = (medoids: number[]) => {
+    return matrix.reduce((sum, row) => {
+      return sum + Math.min(...medoids.map(m => row[m]));
+    }, 0);
+  };
+  const medoids: number[] = [];
+  while (medoids.length < k) {
+    let best = { idx: -1, cost: Infinity };
+    for (let i = 0; i < n; i++) {
+      if (medoids.includes(i)) continue;
+      const c = cost([...medoids, i]);
+      if (c < best.cost) best = { idx: i, cost: c };
+    }
+    medoids.push(best.idx);
+  }
+  let currentCost = cost(medoids);
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let improved = false;
+    for (let m = 0; m < k; m++) {
+      for (let i = 0; i < n; i++) {
+        if (medoids.includes(i)) continue;
+        const candidate = medoids.slice();
+        candidate[m] = i;
+        const c = cost(candidate);
+        if (c < currentCost) {
+          medoids[m] = i;
+          currentCost = c;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  const labels = matrix.map(row => {
+    const ds = medoids.map(m => row[m]);
+    return ds.indexOf(Math.min(...ds));
+  });
+  return { medoids, labels, cost: currentCost };
+}
+
+export {
+  metricValue,
+  distanceMatrix,
+  hierarchicalClustering,
+  cutTree,
+  kMedoids
+}
+
+export type { MetricName, Linkage, ClusterMerge }
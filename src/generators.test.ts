@@ -0,0 +1,71 @@
+import { Morph } from './morphs';
+import {
+  sample,
+  uniformMorph,
+  randomWalk,
+  MarkovChain,
+  contourMorph,
+  contourVectorMorph
+} from './generators';
+import { seededRandom } from './random';
+
+describe('Random morph generators', () => {
+  test('Samples from weighted distributions', () => {
+    const random = seededRandom(1);
+    const dist = { values: [1, 2, 3], weights: [0, 1, 3] };
+    const draws = [...Array(400)].map(() => sample(dist, random));
+    expect(draws).not.toContain(1);
+    const threes = draws.filter(d => d === 3).length;
+    expect(threes).toBeGreaterThan(250);
+    expect(() => sample({ values: [1], weights: [0] }, random)).toThrow();
+  })
+
+  test('Uniform morphs are repeatable', () => {
+    const a = uniformMorph(20, { min: 60, max: 72, seed: 3 });
+    expect(a.data).toHaveLength(20);
+    expect(a.data.every(v => Number.isInteger(v) && v >= 60 && v <= 72))
+      .toBe(true);
+    expect(uniformMorph(20, { min: 60, max: 72, seed: 3 })).toEqual(a);
+    const real = uniformMorph(5, { integer: false, max: 1, seed: 3 });
+    expect(real.data.some(v => !Number.isInteger(v))).toBe(true);
+  })
+
+  test('Random walks stay in bounds', () => {
+    const walk = randomWalk(200, {
+      start: 60,
+      intervals: { values: [-3, 3] },
+      min: 55,
+      max: 65,
+      seed: 4
+    });
+    expect(walk.data[0]).toEqual(60);
+    expect(walk.data.every(v => v >= 55 && v <= 65)).toBe(true);
+    expect(walk.derivate(1, true).every(d => d <= 3)).toBe(true);
+  })
+
+  test('Markov chains reproduce their training transitions', () => {
+    const scale = new Morph([0, 2, 4, 5, 7, 5, 4, 2, 0]);
+    const chain = new MarkovChain([scale]);
+    const out = chain.generate(30, { seed: 5 });
+    expect(out.data).toHaveLength(30);
+    out.data.slice(1).forEach((v, i) => {
+      expect(Math.abs(v - out.data[i])).toBeLessThanOrEqual(2);
+    });
+    const intervals = new MarkovChain([scale], { on: 'intervals', order: 2 });
+    const walk = intervals.generate(12, { seed: 6 });
+    expect(walk.data).toHaveLength(12);
+    expect(walk.data[0]).toEqual(0);
+    expect(() => new MarkovChain([new Morph([1, 2])], { order: 2 })).toThrow();
+  })
+
+  test('Contour-constrained morphs', () => {
+    const ranking = [2, 4, 1, 3, 2];
+    const m = contourMorph(ranking, { seed: 7 });
+    expect(m.morrisRanking).toEqual(ranking);
+    const lcv: [number, number, number] = [3, 1, 2];
+    const n = contourVectorMorph(lcv, { start: 60, seed: 8 });
+    expect(n.linearContourVector).toEqual(lcv);
+    expect(n.data[0]).toEqual(60);
+    expect(() => contourMorph([1, 2, 3], { min: 0, max: 1 })).toThrow();
+  })
+})
@@ -0,0 +1,225 @@
+import { Morph } from './morphs';
+import { Random, randomSource, randomInt, shuffle } from './random';
+
+// Random morph generators, for composition and for baselines. Every generator
+// takes either a `seed` or a `random` function, so its output can be
+// reproduced.
+
+type RandomOptions = { seed?: number, random?: Random };
+
+// A discrete distribution: values with (unnormalized) weights
+type Distribution = { values: number[], weights?: number[] };
+
+const sample = (dist: Distribution, random: Random) => {
+  const weights = dist.weights ?? dist.values.map(() => 1);
+  if (weights.length !== dist.values.length) {
+    throw new Error('There must be one weight per value');
+  }
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) {
+    throw new Error('Weights must sum to more than 0');
+  }
+  let r = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return dist.values[i];
+  }
+  return dist.values[dist.values.length - 1];
+}
+
+// Values drawn uniformly from [min, max] (integers by default)
+const uniformMorph = (
+  length: number,
+  {
+    min = 0,
+    max = 11,
+    integer = true,
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    min?: number,
+    max?: number,
+    integer?: boolean
+  } & RandomOptions = {}
+) => {
+  return new Morph([...Array(length)].map(() => {
+    return integer ?
+      randomInt(random, min, max) :
+      min + random() * (max - min);
+  }));
+}
+
+// A walk whose steps are drawn from a distribution of intervals. Steps that
+// would leave [min, max] are reflected back into it.
+const randomWalk = (
+  length: number,
+  {
+    start = 0,
+    intervals = { values: [-2, -1, 1, 2] },
+    min = -Infinity,
+    max = Infinity,
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    start?: number,
+    intervals?: Distribution,
+    min?: number,
+    max?: number
+  } & RandomOptions = {}
+) => {
+  if (start < min || start > max) {
+    throw new Error('Start must be within [min, max]');
+  }
+  const data = [start];
+  while (data.length < length) {
+    let next = data[data.length - 1] + sample(intervals, random);
+    if (next > max) next = 2 * max - next;
+    if (next < min) next = 2 * min - next;
+    data.push(Math.min(Math.max(next, min), max));
+  }
+  return new Morph(data);
+}
+
+// A Markov chain of a given order, trained on the values (or the adjacent
+// intervals) of existing morphs.
+class MarkovChain {
+  order: number;
+  on: 'values' | 'intervals';
+  transitions: Map<string, Map<number, number>>; // state -> next -> count
+  starts: number[][]; // the first `order` symbols of each training sequence
+  firsts: number[]; // first values, to start interval chains from
+
+  constructor(
+    morphs: Morph[],
+    {
+      order = 1,
+      on = 'values'
+    }: {
+      order?: number,
+      on?: 'values' | 'intervals'
+    } = {}
+  ) {
+    if (order < 1) {
+      throw new Error('Order must be at least 1');
+    }
+    this.order = order;
+    this.on = on;
+    this.transitions = new Map();
+    this.starts = [];
+    this.firsts = morphs.map(m => m.data[0]);
+    morphs.forEach(morph => {
+      const seq = on === 'values' ? morph.data : morph.derivate(1);
+      if (seq.length <= order) return;
+      this.starts.push(seq.slice(0, order));
+      for (let i = order; i < seq.length; i++) {
+        const key = seq.slice(i - order, i).join(',');
+        if (!this.transitions.has(key)) this.transitions.set(key, new Map());
+        const next = this.transitions.get(key)!;
+        next.set(seq[i], (next.get(seq[i]) ?? 0) + 1);
+      }
+    });
+    if (this.starts.length === 0) {
+      throw new Error(`No training morph is longer than order ${order}`);
+    }
+  }
+
+  // Generates a morph of `length` points. When the chain reaches a state that
+  // was never followed by anything, it restarts from a random training state.
+  generate(
+    length: number,
+    {
+      seed = undefined,
+      random = randomSource(seed)
+    }: RandomOptions = {}
+  ) {
+    const pickStart = () => {
+      return this.starts[Math.floor(random() * this.starts.length)];
+    };
+    const symbols = this.on === 'values' ? length : length - 1;
+    const seq = pickStart().slice();
+    while (seq.length < symbols) {
+      const key = seq.slice(seq.length - this.order).join(',');
+      const next = this.transitions.get(key);
+      if (next === undefined) {
+        seq.push(...pickStart());
+        continue;
+      }
+      const values = [...next.keys()];
+      const weights = values.map(v => next.get(v)!);
+      seq.push(sample({ values, weights }, random));
+    }
+    seq.length = symbols;
+    if (this.on === 'values') return new Morph(seq);
+    const data = [this.firsts[Math.floor(random() * this.firsts.length)]];
+    seq.forEach(int => data.push(data[data.length - 1] + int));
+    return new Morph(data);
+  }
+}
+
+// Values with a given contour, as a Morris ranking (1 for the lowest value;
+// equal ranks give equal values): distinct random values in [min, max] are
+// drawn, sorted and assigned by rank.
+const contourMorph = (
+  ranking: number[],
+  {
+    min = 0,
+    max = 24,
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    min?: number,
+    max?: number
+  } & RandomOptions = {}
+) => {
+  const ranks = [...new Set(ranking)].sort((a, b) => a - b);
+  if (ranks.length > max - min + 1) {
+    throw new Error('The range is too small for the number of ranks');
+  }
+  const pool = [...Array(max - min + 1)].map((_, i) => min + i);
+  const values = shuffle(pool, random)
+    .slice(0, ranks.length)
+    .sort((a, b) => a - b);
+  return new Morph(ranking.map(r => values[ranks.indexOf(r)]));
+}
+
+// A walk with a given linear contour vector ([ups, repetitions, downs]), in a
+// random order, with step sizes drawn from `steps`.
+const contourVectorMorph = (
+  lcv: [number, number, number],
+  {
+    start = 0,
+    steps = { values: [1, 2, 3] },
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    start?: number,
+    steps?: Distribution
+  } & RandomOptions = {}
+) => {
+  if (steps.values.some(v => v === 0)) {
+    throw new Error('Steps must not be 0');
+  }
+  const [ups, same, downs] = lcv;
+  const dirs = shuffle([
+    ...Array(ups).fill(1),
+    ...Array(same).fill(0),
+    ...Array(downs).fill(-1)
+  ] as number[], random);
+  const data = [start];
+  dirs.forEach(dir => {
+    const step = dir === 0 ? 0 : dir * Math.abs(sample(steps, random));
+    data.push(data[data.length - 1] + step);
+  });
+  return new Morph(data);
+}
+
+export {
+  sample,
+  uniformMorph,
+  randomWalk,
+  MarkovChain,
+  contourMorph,
+  contourVectorMorph
+}
+
+export type { Distribution, RandomOptions }
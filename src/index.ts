@@ -0,0 +1,19 @@
+export * from './morphs';
+export * from './mutations';
+export * from './corpus';
+export * from './windowed';
+export * from './registry';
+export * from './alignment';
+export * from './midi';
+export * from './notation';
+export * from './search';
+export * from './invariance';
+export * from './contour';
+export * from './composite';
+export * from './random';
+export * from './significance';
+export * from './generators';
+export * from './targets';
+export * from './timed';
+export * from './audio';
+export * from './batch';
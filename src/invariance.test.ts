@@ -0,0 +1,68 @@
+import { Morph, cc } from './morphs';
+import { compute } from './registry';
+import { applyTransformation, invariantMetric } from './invariance';
+
+describe('Transformation-invariant comparison', () => {
+  const m = new Morph([0, 4, 7, 5, 2]);
+  const identity = {
+    rotation: 0,
+    retrograde: false,
+    inversion: false,
+    scale: 1,
+    transposition: 0
+  };
+
+  test('Applies transformations in order', () => {
+    const t = { ...identity, retrograde: true, transposition: 3 };
+    expect(applyTransformation(m, t).data).toEqual([5, 8, 10, 7, 3]);
+    const r = { ...identity, rotation: 1, inversion: true };
+    expect(applyTransformation(m, r).data).toEqual([4, 1, 3, 6, 8]);
+  })
+
+  test('Finds the retrograde inversion', () => {
+    const o = new Morph([0, 4, 7, 5, 6]);
+    const n = o.invert().retrograde().transpose(5);
+    expect(compute('OLD', o, n)).toBeGreaterThan(0);
+    const found = invariantMetric(o, n, 'OLD');
+    expect(found.value).toEqual(0);
+    expect(found.transformation.retrograde).toBe(true);
+    expect(found.transformation.inversion).toBe(true);
+  })
+
+  test('Makes fundamental value forms transposition invariant', () => {
+    const n = m.transpose(12);
+    const options = {
+      mIntervalForm: 'fundamental value' as const,
+      mFundamentalValue: 0,
+      nIntervalForm: 'fundamental value' as const,
+      nFundamentalValue: 0
+    };
+    expect(compute('OLMGeneralizedInterval', m, n, options)).toBeGreaterThan(0);
+    const found = invariantMetric(m, n, 'OLMGeneralizedInterval', {
+      group: ['transposition'],
+      options
+    });
+    expect(found.value).toEqual(0);
+    expect(found.transformation.transposition).toEqual(-12);
+    expect(found.morph.data).toEqual(m.data);
+  })
+
+  test('Handles augmentation, rotation and custom distances', () => {
+    const n = m.scale(2).rotate(2);
+    const distance = (a: Morph, b: Morph) => 1 - cc(a.data, b.data);
+    expect(distance(m, n)).toBeGreaterThan(0.1);
+    const found = invariantMetric(m, n, distance, {
+      group: ['rotation', 'augmentation']
+    });
+    expect(found.value).toBeCloseTo(0);
+    expect(found.transformation.rotation).toEqual(3);
+    const pointwise = (a: Morph, b: Morph) => {
+      return Math.max(...a.data.map((x, i) => Math.abs(x - b.data[i])));
+    };
+    const semitones = invariantMetric(m, m.transpose(3), pointwise, {
+      group: ['transposition'],
+      transpositions: [-3, 0, 3]
+    });
+    expect(semitones.transformation).toEqual({ ...identity, transposition: -3 });
+  })
+})
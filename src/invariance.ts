@@ -0,0 +1,121 @@
+import { Morph } from './morphs';
+import { RegisteredMetric, MetricOptions, compute } from './registry';
+import { Distance } from './search';
+
+// Transformation-invariant comparison: n is transformed in every way allowed
+// by a group of transformations, and the smallest distance to m is kept,
+// along with the transformation that gave it.
+
+type TransformationKind = (
+  'transposition' |
+  'inversion' |
+  'retrograde' |
+  'augmentation' |
+  'rotation'
+);
+
+// Applied to n in this order: rotation, retrograde, inversion (about n's
+// first value), augmentation (about n's first value), then transposition.
+type Transformation = {
+  rotation: number,
+  retrograde: boolean,
+  inversion: boolean,
+  scale: number,
+  transposition: number
+};
+
+const mean = (data: number[]) => data.reduce((a, b) => a + b, 0) / data.length;
+
+const range = (data: number[]) => Math.max(...data) - Math.min(...data);
+
+const applyTransformation = (morph: Morph, t: Transformation) => {
+  let out = morph.rotate(t.rotation);
+  if (t.retrograde) out = out.retrograde();
+  if (t.inversion) out = out.invert();
+  if (t.scale !== 1) out = out.scale(t.scale);
+  if (t.transposition !== 0) out = out.transpose(t.transposition);
+  return out;
+}
+
+// Compares m with every transformation of n in the group, and returns the
+// minimum distance. Transposition and augmentation are continuous, so only
+// candidate amounts are tried: by default, the transpositions that line up
+// the means and the first values of the two morphs, and the scale that
+// matches their ranges (along with no scaling). `transpositions` and `scales`
+// replace those defaults, e.g. with every semitone in an octave.
+const invariantMetric = <K extends RegisteredMetric>(
+  m: Morph,
+  n: Morph,
+  metric: K | Distance,
+  {
+    group = ['transposition', 'inversion', 'retrograde'],
+    transpositions = undefined,
+    scales = undefined,
+    options = undefined
+  }: {
+    group?: TransformationKind[],
+    transpositions?: number[],
+    scales?: number[],
+    options?: MetricOptions<K> // for registered metrics
+  } = {}
+) => {
+  const distance: Distance = typeof metric === 'string' ?
+    (a, b) => compute(metric, a, b, options) :
+    metric;
+  const has = (kind: TransformationKind) => group.includes(kind);
+  const rotations = has('rotation') ?
+    [...Array(n.data.length)].map((_, i) => i) :
+    [0];
+  const flags = (kind: TransformationKind) => has(kind) ? [false, true] : [false];
+  const nRange = range(n.data);
+  let scaleCandidates = [1];
+  if (has('augmentation')) {
+    scaleCandidates = scales ??
+      (nRange === 0 ? [1] : [...new Set([1, range(m.data) / nRange])]);
+  }
+  let best = {
+    value: Infinity,
+    transformation: undefined as Transformation | undefined,
+    morph: n
+  };
+  rotations.forEach(rotation => {
+    flags('retrograde').forEach(retrograde => {
+      flags('inversion').forEach(inversion => {
+        scaleCandidates.forEach(scale => {
+          const base = { rotation, retrograde, inversion, scale };
+          const shaped = applyTransformation(n, { ...base, transposition: 0 });
+          let shifts = [0];
+          if (has('transposition')) {
+            shifts = transpositions ?? [...new Set([
+              mean(m.data) - mean(shaped.data),
+              m.data[0] - shaped.data[0]
+            ])];
+          }
+          shifts.forEach(transposition => {
+            const morph = shaped.transpose(transposition);
+            const value = distance(m, morph);
+            if (value < best.value) {
+              best = {
+                value,
+                transformation: { ...base, transposition },
+                morph
+              };
+            }
+          });
+        });
+      });
+    });
+  });
+  if (best.transformation === undefined) {
+    throw new Error('No transformation of n gave a comparable distance');
+  }
+  return best as {
+    value: number,
+    transformation: Transformation,
+    morph: Morph // n, transformed
+  };
+}
+
+export { applyTransformation, invariantMetric }
+
+export type { Transformation, TransformationKind }
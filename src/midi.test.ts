@@ -0,0 +1,108 @@
+import { parseMidi, midiToMorphs, notesToValues } from './midi';
+
+// builds a chunk: 4-char id, 32-bit length, then the data
+const chunk = (id: string, data: number[]) => {
+  const len = data.length;
+  return [
+    ...id.split('').map(c => c.charCodeAt(0)),
+    (len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff,
+    ...data
+  ];
+}
+
+const header = (format: number, numTracks: number, division: number) => {
+  return chunk('MThd', [
+    0, format, 0, numTracks, (division >> 8) & 0xff, division & 0xff
+  ]);
+}
+
+const endOfTrack = [0x00, 0xff, 0x2f, 0x00];
+
+// format 1, 96 ticks per quarter: a tempo track, then a track with a melody
+// on channel 0 (C4, a D4/F4/A4 chord, E4) and two notes on channel 1
+const file = new Uint8Array([
+  ...header(1, 2, 96),
+  ...chunk('MTrk', [
+    0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, // 500000 us per quarter
+    ...endOfTrack
+  ]),
+  ...chunk('MTrk', [
+    0x00, 0x90, 60, 100, // C4 on
+    0x60, 0x80, 60, 0, // 96 ticks later, off
+    0x00, 0x90, 62, 80, // chord on, using running status for the next two
+    0x00, 65, 90,
+    0x00, 69, 70,
+    0x81, 0x40, 62, 0, // 192 ticks later, note-on with velocity 0 is an off
+    0x00, 65, 0,
+    0x00, 69, 0,
+    0x00, 0xc1, 5, // program change, channel 1 (single data byte)
+    0x00, 0x91, 40, 50,
+    0x30, 0x90, 64, 60, // E4 on, 48 ticks later
+    0x30, 0x81, 40, 0,
+    0x00, 0x91, 43, 55,
+    0x30, 0x80, 64, 0,
+    0x00, 0x81, 43, 0,
+    ...endOfTrack
+  ])
+]);
+
+describe('MIDI import', () => {
+  test('Parses notes and timing', () => {
+    const midi = parseMidi(file);
+    expect(parseMidi(file.slice().buffer)).toEqual(midi);
+    expect(midi.format).toEqual(1);
+    expect(midi.division).toEqual(96);
+    expect(midi.tracks[0]).toEqual([]);
+    const notes = midi.tracks[1];
+    expect(notes.map(n => n.pitch)).toEqual([60, 62, 65, 69, 40, 64, 43]);
+    expect(notes[0]).toMatchObject({ 
+      startTick: 0, 
+      endTick: 96, 
+      start: 0, 
+      end: 0.5, 
+      velocity: 100,
+      channel: 0,
+      track: 1
+    });
+    expect(notes[1].endTick).toEqual(288);
+    expect(notes[5].start).toBeCloseTo(1.75, 8);
+    expect(notes[5].end).toBeCloseTo(2.25, 8);
+  })
+
+  test('Rejects non-MIDI data', () => {
+    expect(() => parseMidi(new Uint8Array([1, 2, 3, 4]))).toThrow();
+    expect(() => parseMidi(new Uint8Array(header(0, 1, 96)))).toThrow();
+  })
+
+  test('Chord reduction', () => {
+    const notes = parseMidi(file).tracks[1].filter(n => n.channel === 0);
+    expect(notesToValues(notes)).toEqual([60, 69, 64]);
+    expect(notesToValues(notes, { chord: 'lowest' })).toEqual([60, 62, 64]);
+    expect(notesToValues(notes, { chord: 'mean' })).toEqual([60, 196 / 3, 64]);
+    expect(notesToValues(notes, { feature: 'velocity' })).toEqual([100, 70, 60]);
+    expect(notesToValues(notes, { feature: 'velocity', chord: 'mean' }))
+      .toEqual([100, 80, 60]);
+    expect(notesToValues(notes, { feature: 'duration', time: 'ticks' }))
+      .toEqual([96, 192, 96]);
+    expect(notesToValues(notes, { feature: 'ioi', time: 'ticks' }))
+      .toEqual([96, 240]);
+  })
+
+  test('Morphs per track and per channel', () => {
+    const byTrack = midiToMorphs(file);
+    expect(byTrack).toHaveLength(1);
+    expect(byTrack[0].track).toEqual(1);
+    expect(byTrack[0].morph.data).toEqual([60, 69, 40, 64, 43]);
+    const byChannel = midiToMorphs(file, { groupBy: 'channel' });
+    expect(byChannel.map(m => m.channel)).toEqual([0, 1]);
+    expect(byChannel[0].morph.data).toEqual([60, 69, 64]);
+    expect(byChannel[1].morph.data).toEqual([40, 43]);
+    const ioi = midiToMorphs(parseMidi(file), { 
+      groupBy: 'channel', 
+      feature: 'ioi' 
+    });
+    // channel 1 has only one inter-onset interval, so no morph
+    expect(ioi.map(m => m.channel)).toEqual([0]);
+    expect(ioi[0].morph.data).toEqual([0.5, 1.25]);
+  })
+})
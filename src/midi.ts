@@ -0,0 +1,284 @@
+import { Morph } from './morphs';
+
+// Standard MIDI File (SMF) import. Parses format 0 and 1 files into notes,
+// and turns the notes of each track or channel into Morphs.
+
+type MidiNote = {
+  pitch: number,
+  velocity: number,
+  channel: number,
+  track: number,
+  startTick: number,
+  endTick: number,
+  start: number, // seconds
+  end: number
+};
+
+type MidiFile = {
+  format: number,
+  division: number, // ticks per quarter note (or per second, for SMPTE)
+  tracks: MidiNote[][]
+};
+
+type MidiFeature = 'pitch' | 'velocity' | 'ioi' | 'duration';
+
+type ChordReduction = 'highest' | 'lowest' | 'mean';
+
+type TempoChange = { tick: number, microsPerQuarter: number };
+
+class MidiReader {
+  bytes: Uint8Array;
+  pos: number;
+
+  constructor(bytes: Uint8Array, pos: number = 0) {
+    this.bytes = bytes;
+    this.pos = pos;
+  }
+
+  byte() {
+    if (this.pos >= this.bytes.length) {
+      throw new Error('Unexpected end of MIDI data');
+    }
+    return this.bytes[this.pos++];
+  }
+
+  uint(size: number) {
+    let out = 0;
+    for (let i = 0; i < size; i++) {
+      out = out * 256 + this.byte();
+    }
+    return out;
+  }
+
+  // variable-length quantity, 7 bits per byte, high bit set on all but last
+  vlq() {
+    let out = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      out = out * 128 + (b & 0x7f);
+      if ((b & 0x80) === 0) return out;
+    }
+    throw new Error('Variable-length quantity is too long');
+  }
+
+  ascii(size: number) {
+    let out = '';
+    for (let i = 0; i < size; i++) {
+      out += String.fromCharCode(this.byte());
+    }
+    return out;
+  }
+}
+
+type RawNote = Omit<MidiNote, 'start' | 'end'>;
+
+const readTrack = (reader: MidiReader, end: number, track: number) => {
+  const notes: RawNote[] = [];
+  const tempos: TempoChange[] = [];
+  // sounding notes, keyed by channel and pitch; a stack handles overlaps
+  const open = new Map<number, RawNote[]>();
+  let tick = 0;
+  let running = 0; // running status, only ever a channel message
+  while (reader.pos < end) {
+    tick += reader.vlq();
+    let status = reader.byte();
+    let first: number;
+    if (status & 0x80) {
+      if (status < 0xf0) running = status;
+      first = status < 0xf0 ? reader.byte() : 0;
+    } else if (running === 0) {
+      throw new Error('Running status without a preceding status byte');
+    } else {
+      first = status;
+      status = running;
+    }
+    if (status === 0xff) {
+      const type = reader.byte();
+      const len = reader.vlq();
+      if (type === 0x51 && len === 3) {
+        tempos.push({ tick, microsPerQuarter: reader.uint(3) });
+      } else {
+        reader.pos += len;
+      }
+      if (type === 0x2f) break;
+      continue;
+    } else if (status === 0xf0 || status === 0xf7) {
+      reader.pos += reader.vlq();
+      running = 0;
+      continue;
+    }
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    const data1 = first;
+    // program change and channel pressure have a single data byte
+    const data2 = (type === 0xc0 || type === 0xd0) ? 0 : reader.byte();
+    const key = channel * 128 + data1;
+    if (type === 0x90 && data2 > 0) {
+      const note = {
+        pitch: data1,
+        velocity: data2,
+        channel,
+        track,
+        startTick: tick,
+        endTick: tick
+      };
+      if (!open.has(key)) open.set(key, []);
+      open.get(key)!.push(note);
+      notes.push(note);
+    } else if (type === 0x80 || type === 0x90) {
+      const sounding = open.get(key);
+      if (sounding && sounding.length > 0) {
+        sounding.shift()!.endTick = tick;
+      }
+    }
+  }
+  // notes never switched off last until the end of the track
+  open.forEach(sounding => sounding.forEach(note => note.endTick = tick));
+  reader.pos = end;
+  return { notes, tempos };
+}
+
+const parseMidi = (input: Uint8Array | ArrayBuffer): MidiFile => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const reader = new MidiReader(bytes);
+  if (reader.ascii(4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File: missing MThd header');
+  }
+  const headerLength = reader.uint(4);
+  const headerEnd = reader.pos + headerLength;
+  const format = reader.uint(2);
+  const numTracks = reader.uint(2);
+  const rawDivision = reader.uint(2);
+  reader.pos = headerEnd;
+  let ticksToSeconds: (tick: number) => number;
+  const rawTracks: RawNote[][] = [];
+  const tempos: TempoChange[] = [];
+  for (let t = 0; t < numTracks; t++) {
+    const id = reader.ascii(4);
+    const length = reader.uint(4);
+    if (id !== 'MTrk') { // unknown chunks are skipped
+      reader.pos += length;
+      t--;
+      continue;
+    }
+    const track = readTrack(reader, reader.pos + length, rawTracks.length);
+    rawTracks.push(track.notes);
+    tempos.push(...track.tempos);
+  }
+  let division: number;
+  if (rawDivision & 0x8000) {
+    // SMPTE: negative frames per second in the high byte, ticks per frame
+    const fps = 256 - (rawDivision >> 8);
+    division = fps * (rawDivision & 0xff);
+    ticksToSeconds = tick => tick / division;
+  } else {
+    division = rawDivision;
+    tempos.sort((a, b) => a.tick - b.tick);
+    ticksToSeconds = tick => {
+      let seconds = 0, lastTick = 0, micros = 500000;
+      for (const tempo of tempos) {
+        if (tempo.tick >= tick) break;
+        seconds += (tempo.tick - lastTick) * micros / (division * 1e6);
+        lastTick = tempo.tick;
+        micros = tempo.microsPerQuarter;
+      }
+      return seconds + (tick - lastTick) * micros / (division * 1e6);
+    };
+  }
+  const tracks = rawTracks.map(notes => notes.map(note => ({
+    ...note,
+    start: ticksToSeconds(note.startTick),
+    end: ticksToSeconds(note.endTick)
+  })));
+  return { format, division, tracks };
+}
+
+const reduceChord = (values: number[], chord: ChordReduction) => {
+  if (chord === 'highest') {
+    return Math.max(...values);
+  } else if (chord === 'lowest') {
+    return Math.min(...values);
+  } else {
+    return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+}
+
+// Reduces a list of notes to one value per onset, for a given feature.
+// Simultaneous notes (same start tick) are reduced according to `chord`; for
+// velocity and duration under 'highest' / 'lowest', the value of the highest
+// / lowest pitched note is used.
+const notesToValues = (
+  notes: MidiNote[],
+  {
+    feature = 'pitch',
+    chord = 'highest',
+    time = 'seconds'
+  }: {
+    feature?: MidiFeature,
+    chord?: ChordReduction,
+    time?: 'seconds' | 'ticks'
+  } = {}
+) => {
+  const onsets = new Map<number, MidiNote[]>();
+  notes.slice().sort((a, b) => a.startTick - b.startTick).forEach(note => {
+    if (!onsets.has(note.startTick)) onsets.set(note.startTick, []);
+    onsets.get(note.startTick)!.push(note);
+  });
+  const groups = [...onsets.values()];
+  const startOf = (n: MidiNote) => time === 'seconds' ? n.start : n.startTick;
+  const durOf = (n: MidiNote) => {
+    return time === 'seconds' ? n.end - n.start : n.endTick - n.startTick;
+  };
+  if (feature === 'ioi') {
+    return groups.slice(1).map((g, i) => startOf(g[0]) - startOf(groups[i][0]));
+  }
+  return groups.map(group => {
+    if (feature === 'pitch') {
+      return reduceChord(group.map(n => n.pitch), chord);
+    }
+    const get = feature === 'velocity' ? (n: MidiNote) => n.velocity : durOf;
+    if (chord === 'mean') {
+      return reduceChord(group.map(get), 'mean');
+    }
+    const pitch = reduceChord(group.map(n => n.pitch), chord);
+    return get(group.find(n => n.pitch === pitch)!);
+  });
+}
+
+// Builds a Morph per track (or per channel) of a MIDI file. Tracks or
+// channels with too few notes to form a Morph are left out.
+const midiToMorphs = (
+  midi: Uint8Array | ArrayBuffer | MidiFile,
+  {
+    feature = 'pitch',
+    chord = 'highest',
+    groupBy = 'track',
+    time = 'seconds'
+  }: {
+    feature?: MidiFeature,
+    chord?: ChordReduction,
+    groupBy?: 'track' | 'channel',
+    time?: 'seconds' | 'ticks'
+  } = {}
+) => {
+  const file = midi instanceof Uint8Array || midi instanceof ArrayBuffer ?
+    parseMidi(midi) :
+    midi;
+  const groups = new Map<number, MidiNote[]>();
+  file.tracks.flat().forEach(note => {
+    const key = groupBy === 'track' ? note.track : note.channel;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(note);
+  });
+  const out: { track?: number, channel?: number, morph: Morph }[] = [];
+  [...groups.keys()].sort((a, b) => a - b).forEach(key => {
+    const values = notesToValues(groups.get(key)!, { feature, chord, time });
+    if (values.length < 2) return;
+    out.push({ [groupBy]: key, morph: new Morph(values) });
+  });
+  return out;
+}
+
+export { parseMidi, notesToValues, midiToMorphs }
+
+export type { MidiFile, MidiNote, MidiFeature, ChordReduction }
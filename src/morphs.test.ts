@@ -1,10 +1,16 @@
-import { Morph, MorphologicalMetric, delta } from './morphs';
+import { 
+  Morph, 
+  MorphologicalMetric, 
+  MultidimensionalMorph, 
+  MultidimensionalMetric, 
+  delta,
+  modularDelta
+} from './morphs';
+import { uniformMorph } from './generators';
+import { seededRandom } from './random';
 
-const morphGen = (n: number) => {
-  return new Morph([...Array(n)].map(() => {
-    return Math.floor(12 * Math.random())
-  }))
-};
+const random = seededRandom(1996);
+const morphGen = (n: number) => uniformMorph(n, { random });
 
 describe('Morph', () => {
   test('Creates a morph', () => {
@@ -61,6 +67,7 @@ describe('Morph', () => {
     expect(mm.SobalevOLM({ weights: [1, 1/2, 1/3] })).toEqual(ans)
     const ans2 = (7/8 + 5/9) / (1/2 + 1/3);
     expect(mm.SobalevOLM({ minOrder: 1, weights: [1/2, 1/3] })).toEqual(ans2)
+    expect(mm.SobalevOLM()).toEqual(mm.SobalevOLM({ weights: [1, 1, 1] }))
   })
 
   test('Tries out OLM', () => {
@@ -227,6 +234,74 @@ describe('Morph', () => {
     expect(n.combinatorialMagnitudeMatrix).toEqual(cmm);
   })
 
+  test('Transformations', () => {
+    const m = new Morph([5, 3, 2, 6, 9]);
+    expect(m.transpose(2).data).toEqual([7, 5, 4, 8, 11]);
+    expect(m.invert().data).toEqual([5, 7, 8, 4, 1]);
+    expect(m.invert(0).data).toEqual([-5, -3, -2, -6, -9]);
+    expect(m.retrograde().data).toEqual([9, 6, 2, 3, 5]);
+    expect(m.scale(2).data).toEqual([5, 1, -1, 7, 13]);
+    expect(m.scale(0.5, 1).data).toEqual([3, 2, 1.5, 3.5, 5]);
+    expect(m.rotate(2).data).toEqual([2, 6, 9, 5, 3]);
+    expect(m.rotate(-1).data).toEqual([9, 5, 3, 2, 6]);
+    expect(m.data).toEqual([5, 3, 2, 6, 9]);
+  })
+
+  test('Modular deltas', () => {
+    const tet19 = modularDelta(19);
+    expect(tet19.interval(0, 15)).toEqual(4);
+    expect(tet19.signedInterval(0, 15)).toEqual(-4);
+    expect(tet19.sgn(0, 15)).toEqual(1);
+    expect(tet19.sgn(15, 0)).toEqual(-1);
+    expect(modularDelta(16).signedInterval(14, 2)).toEqual(4);
+    expect(modularDelta(12).signedInterval(0, 6)).toEqual(6);
+    expect(delta.intervalClass(1, 11)).toEqual(2);
+    expect(() => modularDelta(0)).toThrow();
+  })
+
+  test('Modular morphs', () => {
+    const m = new Morph([0, 11, 1, 6], { modulus: 12 });
+    const n = new Morph([0, 1, 11, 5], { modulus: 12 });
+    expect(m.derivate(1)).toEqual([-1, 2, 5]);
+    expect(m.derivate(2)).toEqual([3, 3]);
+    expect(m.directionInterval).toEqual([1, -1, -1]);
+    expect(m.linearContourVector).toEqual([2, 0, 1]);
+    expect(m.combinatorialContourVector).toEqual([4, 0, 2]);
+    expect(n.derivate(1)).toEqual([1, -2, 6]);
+    const mm = new MorphologicalMetric([m, n]);
+    expect(mm.OLD()).toBeCloseTo(2 / 3);
+    expect(mm.OCD()).toBeCloseTo(2 / 3);
+    // a pitch-class set is unchanged by moving a value an octave
+    const octave = new Morph([12, 11, 1, 6], { modulus: 12 });
+    expect(new MorphologicalMetric([m, octave]).OCD()).toEqual(0);
+    expect(m.transpose(3).modulus).toEqual(12);
+    expect(m.rotate(1).modulus).toEqual(12);
+    expect(() => new MorphologicalMetric([m, new Morph([0, 1, 2, 3])]))
+      .toThrow();
+    expect(() => new Morph([0, 1], { modulus: -12 })).toThrow();
+  })
+
+  test('Modular magnitude metrics', () => {
+    const m = new Morph([0, 11, 1, 6], { modulus: 12 });
+    const n = new Morph([0, 1, 11, 5], { modulus: 12 });
+    const mm = new MorphologicalMetric([m, n]);
+    // interval classes 1, 2, 5 against 1, 2, 6
+    expect(mm.OLMCanonical()).toBeCloseTo(1 / 3);
+    expect(mm.ULM()).toBeCloseTo(1 / 3);
+    expect(mm.OLM()).toEqual(mm.OLMCanonical());
+    const ic = delta.intervalClass;
+    expect(mm.OCM()).toEqual(mm.OCM({ delta: ic }));
+    expect(mm.maxOLM()).toEqual(1);
+    const plain = new MorphologicalMetric([
+      new Morph(m.data),
+      new Morph(n.data)
+    ]);
+    expect(plain.OLMCanonical()).toBeCloseTo(11 / 3);
+    const tet19 = new Morph([0, 1, 2, 3], { modulus: 19 });
+    expect(() => new MorphologicalMetric([m, tet19]))
+      .toThrow('Morphs must have the same modulus');
+  })
+
   test('OLM, ULM (again?)', () => {
     const m = new Morph([1, 6, 2, 5, 11]);
     const n = new Morph([3, 15, 13, 2, 9]);
@@ -318,4 +393,188 @@ describe('Morph', () => {
     expect(mm.UCM({ scaling: 'absolute' })).toBeCloseTo(0.14545, 4);
     expect(mm.UCM({ scaling: 'relative' })).toBeCloseTo(0.025, 3);
   })
-})
\ No newline at end of file
+})
+
+describe('Verbose traces', () => {
+  const m = new Morph([1, 5, 12, 2, 9, 6]);
+  const n = new Morph([7, 6, 4, 9, 8, 1]);
+  const mm = new MorphologicalMetric([m, n]);
+
+  test('OLM trace matches the worked example', () => {
+    // Polansky, 1996, pg. 319
+    const trace = mm.OLM({ scaling: 'absolute', verbose: true })!;
+    expect(trace.value).toEqual(0.46);
+    expect(trace.intervals!.m).toEqual([[1, 5], [5, 12], [12, 2], [2, 9], [9, 6]]);
+    expect(trace.deltas!.m).toEqual([4, 7, 10, 7, 3]);
+    expect(trace.deltas!.n).toEqual([1, 2, 5, 1, 7]);
+    expect(trace.psi).toEqual([3, 5, 5, 6, 4]);
+    expect(trace.sum).toEqual(23);
+    expect(trace.scaling).toEqual({ 'L - 1': 5, maxInt: 10 });
+    expect(trace.normalization).toEqual('sum / ((L - 1) * maxInt)');
+  })
+
+  test('Direction metrics keep their grain', () => {
+    const trace = mm.OCD({ verbose: true });
+    expect(trace.value).toEqual(mm.OCD());
+    expect(trace.grain).toEqual(1 / 15);
+    expect(trace.scaling).toEqual({ Lm: 15 });
+    expect(trace.psi).toHaveLength(15);
+  })
+
+  test('Combinatorial scaling denominators', () => {
+    const trace = mm.OCM({ scaling: 'relative', verbose: true });
+    expect(trace.value).toEqual(mm.OCM({ scaling: 'relative' }));
+    expect(trace.scaling).toEqual({ Lm: 15, mMaxInt: 11, nMaxInt: 8 });
+    const ucm = mm.UCM({ scaling: 'absolute', verbose: true });
+    expect(ucm.value).toEqual(mm.UCM({ scaling: 'absolute' }));
+    expect(ucm.scaling!.maxInt).toEqual(11);
+  })
+
+  test('Partial combinatoriality', () => {
+    // Polansky, 1996, pg. 307 - 308
+    const full = mm.OCD({ maxDistance: 5, verbose: true });
+    expect(full.value).toEqual(mm.OCD());
+    expect(full.degreeOfCombinatoriality).toEqual({ m: 1, n: 1 });
+    const adjacent = mm.OCD({ maxDistance: 1, verbose: true });
+    expect(adjacent.value).toBeCloseTo(mm.OLD());
+    expect(adjacent.degreeOfCombinatoriality!.m).toBeCloseTo(1 / 3);
+    expect(adjacent.scaling).toEqual({ 'sum of weights': 5 });
+    expect(mm.OCM({ maxDistance: 1 })).toBeCloseTo(mm.OLMCanonical());
+    expect(mm.UCM({ maxDistance: 1 })).toBeCloseTo(mm.ULM()!);
+    const weighted = mm.OCM({ distanceWeights: [1, 0, 0, 0, 0], verbose: true });
+    expect(weighted.value).toBeCloseTo(mm.OCM({ maxDistance: 1 }));
+    expect(weighted.normalization).toEqual('sum / sum of weights');
+    expect(weighted.degreeOfCombinatoriality!.m).toEqual(1);
+    expect(mm.OCD({ maxDistance: 2, distanceWeights: [2, 1] }))
+      .toBeGreaterThan(0);
+    expect(() => mm.OCD({ maxDistance: 0 })).toThrow();
+    expect(() => mm.OCM({ maxDistance: 3, distanceWeights: [1, 1] })).toThrow();
+  })
+
+  test('Higher order intervals', () => {
+    const trace = mm.OLMOriginal({ order: 2, verbose: true });
+    expect(trace.value).toEqual(mm.OLMOriginal({ order: 2 }));
+    expect(trace.intervals!.m).toEqual([[4, 7], [7, 10], [10, 7], [7, 3]]);
+    expect(trace.deltas!.m).toEqual(m.derivate(2, true));
+  })
+})
+
+describe('Weighted morphs', () => {
+  const m = new Morph([0, 2, 5, 4], { weights: [1, 1, 3, 3] });
+  const n = new Morph([0, 2, 2, 4]);
+
+  test('Weights intervals by the mean weight of their points', () => {
+    const mm = new MorphologicalMetric([m, n]);
+    // interval weights 1, 2 and 3, psi 0, 3 and 1
+    expect(mm.OLMCanonical()).toEqual(9 / 6);
+    expect(new MorphologicalMetric([new Morph(m.data), n]).OLMCanonical())
+      .toEqual(4 / 3);
+    expect(mm.OLD()).toBeCloseTo(5 / 6);
+    const trace = mm.OLD({ verbose: true });
+    expect(trace.scaling).toEqual({ 'sum of weights': 6 });
+    expect(trace.normalization).toEqual('sum / sum of weights');
+    // with both morphs weighted, the interval weights are averaged
+    const o = new Morph(n.data, { weights: [3, 3, 1, 1] });
+    expect(new MorphologicalMetric([m, o]).OLMCanonical()).toEqual(8 / 6);
+  })
+
+  test('Equal weights give the unweighted values', () => {
+    const [a, b] = [morphGen(8), morphGen(8)];
+    const twos = Array(8).fill(2);
+    const plain = new MorphologicalMetric([a, b]);
+    const weighted = new MorphologicalMetric([
+      new Morph(a.data, { weights: twos }),
+      new Morph(b.data, { weights: twos })
+    ]);
+    const metrics = [
+      'OLMOriginal', 'MagnitudeMetric', 'OLMGeneral', 'OLMCanonical',
+      'OLMScaled', 'OLMRelativeScaling', 'OLD', 'OCD', 'OCM', 'UCM', 'ULM',
+      'ULMAbsoluteScaling', 'ULMRelativeScaling', 'ULD', 'UCD'
+    ] as const;
+    metrics.forEach(metric => {
+      expect(weighted[metric]()).toBeCloseTo(plain[metric]()!, 10);
+    });
+    expect(weighted.OCM({ scaling: 'relative', maxDistance: 2 }))
+      .toBeCloseTo(plain.OCM({ scaling: 'relative', maxDistance: 2 }), 10);
+  })
+
+  test('Weighted direction vectors', () => {
+    const up = new Morph([0, 1, 2, 1], { weights: [1, 1, 1, 5] });
+    const down = new Morph([3, 2, 1, 2], { weights: [1, 1, 1, 5] });
+    // interval weights 1, 1 and 3: [2/5, 0, 3/5] against [3/5, 0, 2/5]
+    expect(new MorphologicalMetric([up, down]).ULD()).toBeCloseTo(0.2);
+    const plain = new MorphologicalMetric([
+      new Morph(up.data),
+      new Morph(down.data)
+    ]);
+    expect(plain.ULD()).toBeCloseTo(1 / 3);
+  })
+
+  test('Transformations keep the weights', () => {
+    expect(m.retrograde().weights).toEqual([3, 3, 1, 1]);
+    expect(m.rotate(1).weights).toEqual([1, 3, 3, 1]);
+    expect(m.transpose(2).weights).toEqual([1, 1, 3, 3]);
+    expect(() => new Morph([1, 2], { weights: [1] })).toThrow();
+    expect(() => new Morph([1, 2], { weights: [1, -1] })).toThrow();
+  })
+})
+
+describe('MultidimensionalMorph', () => {
+  test('Creates a multidimensional morph', () => {
+    const m = new MultidimensionalMorph([[0, 60], [2, 62], [4, 61]]);
+    expect(m.dimensions).toEqual(2);
+    expect(m.dimension(1).data).toEqual([60, 62, 61]);
+    const flat = new MultidimensionalMorph([1, 2, 3]);
+    expect(flat.data).toEqual([[1], [2], [3]]);
+    expect(() => new MultidimensionalMorph([[0, 1], [2]])).toThrow();
+    expect(() => new MultidimensionalMorph([[0, 1]])).toThrow();
+  })
+
+  test('Derivatives and intervals per dimension', () => {
+    const m = new MultidimensionalMorph([[0, 5], [2, 3], [4, 3], [1, 6]]);
+    expect(m.derivate(1)).toEqual([[2, -2], [2, 0], [-3, 3]]);
+    expect(m.derivate(2, true)).toEqual([[0, 2], [1, 3]]);
+    expect(m.generateIntervals()).toEqual([
+      [[0, 5], [2, 3]], [[2, 3], [4, 3]], [[4, 3], [1, 6]]
+    ]);
+    const fVal = m.generateIntervals({ 
+      form: 'fundamental value', 
+      fundamentalValue: [1, 2] 
+    });
+    expect(fVal[0]).toEqual([[0, 5], [1, 2]]);
+    expect(m.linearContourVector).toEqual([[2, 0, 1], [1, 1, 1]]);
+    expect(m.combinatorialContourVector[0]).toEqual(
+      m.dimension(0).combinatorialContourVector
+    );
+  })
+
+  test('Per-dimension and combined magnitude metrics', () => {
+    const m = new MultidimensionalMorph([[1, 1], [6, 5], [2, 12], [5, 2], [11, 9], [0, 6]]);
+    const n = new MultidimensionalMorph([[3, 7], [15, 6], [13, 4], [2, 9], [9, 8], [1, 1]]);
+    const mm = new MultidimensionalMetric([m, n]);
+    const mDims = m.morphs;
+    const nDims = n.morphs;
+    const olms = [0, 1].map(d => {
+      return new MorphologicalMetric([mDims[d], nDims[d]]).OLMCanonical();
+    });
+    const olm = mm.OLM();
+    expect(olm.perDimension).toEqual(olms);
+    expect(olm.value).toBeCloseTo((olms[0] + olms[1]) / 2, 8);
+    const euc = mm.OLM({ combination: 'euclidean' });
+    expect(euc.value).toBeCloseTo(((olms[0] ** 2 + olms[1] ** 2) / 2) ** 0.5, 8);
+    const weighted = mm.OLM({ weights: [3, 1] });
+    expect(weighted.value).toBeCloseTo((3 * olms[0] + olms[1]) / 4, 8);
+    expect(mm.OCM().perDimension[1]).toEqual(
+      new MorphologicalMetric([mDims[1], nDims[1]]).OCM()
+    );
+    expect(mm.ULM({ scaling: 'absolute' }).perDimension).toHaveLength(2);
+    expect(mm.UCM().value).toBeGreaterThanOrEqual(0);
+    expect(mm.compute(m => m.OLD() as number).perDimension).toHaveLength(2);
+  })
+
+  test('Mismatched dimensions', () => {
+    const m = new MultidimensionalMorph([[0, 1], [2, 3]]);
+    const n = new MultidimensionalMorph([[0], [2]]);
+    expect(() => new MultidimensionalMetric([m, n])).toThrow();
+  })
+})
@@ -22,15 +22,64 @@ type ContourVector = [number, number, number];
 
 class Morph {
   data: number[];
-
-  constructor(data: number[]) {
+  // for pitch-class and other cyclic data: intervals and directions are then
+  // taken along the shortest path around the cycle
+  modulus?: number;
+  // per-point weights, e.g. durations or metric accents. An interval is
+  // weighted by the mean weight of the points it spans, and the ordered,
+  // combinatorial, ULM and direction metrics take weighted sums and divide by
+  // the sum of the weights instead of the number of intervals. Equal weights
+  // give the unweighted values.
+  weights?: number[];
+
+  constructor(
+    data: number[],
+    {
+      modulus = undefined,
+      weights = undefined
+    }: {
+      modulus?: number,
+      weights?: number[]
+    } = {}
+  ) {
     this.data = data;
     if (this.data.length < 2) {
       throw new Error('Arrays must have at least 2 elements');
     }
+    if (modulus !== undefined && !(modulus > 0)) {
+      throw new Error('Modulus must be greater than 0');
+    }
+    if (weights !== undefined) {
+      if (weights.length !== data.length) {
+        throw new Error('There must be one weight per point');
+      }
+      if (weights.some(w => !(w >= 0))) {
+        throw new Error('Weights must not be negative');
+      }
+    }
+    this.modulus = modulus;
+    this.weights = weights;
+  }
+
+  intervalWeight(i: number, j: number) { // between points i and j
+    if (this.weights === undefined) return 1;
+    return (this.weights[i] + this.weights[j]) / 2;
+  }
+
+  interval(a: number, b: number) { // from a to b
+    if (this.modulus === undefined) return b - a;
+    return modularDelta(this.modulus).signedInterval(a, b);
+  }
+
+  direction(a: number, b: number) { // as delta.sgn
+    if (this.modulus === undefined) return delta.sgn(a, b);
+    return modularDelta(this.modulus).sgn(a, b);
   }
 
-  derivate(order=1, absolute=false) { // gets the nth order difference of the data
+  // gets the nth order difference of the data; with a modulus, first order
+  // differences are modular intervals, and higher orders are the plain
+  // differences between them
+  derivate(order=1, absolute=false) {
     let out: number[];
     if (this.data.length - order < 1) {
       throw new Error('Order must be less than the length of the array');
@@ -41,7 +90,7 @@ class Morph {
       out = this.data;
     } else if (order === 1) {
       out = this.data.slice(1).map((_, i) => {
-        return this.data[i + 1] - this.data[i];
+        return this.interval(this.data[i], this.data[i + 1]);
       })
     } else {
       const data: number[] = this.derivate(order - 1, absolute);
@@ -65,7 +114,7 @@ class Morph {
 
   // Polansky, 1996, pg. 312
   get directionInterval(): (-1 | 0 | 1)[] {
-    return this.data.slice(1).map((d, i) => delta.sgn(this.data[i], d))
+    return this.data.slice(1).map((d, i) => this.direction(this.data[i], d))
   }
 
   get linearContourVector() { // also sometimes called "direction vector": see 
@@ -87,7 +136,7 @@ class Morph {
     const ccv: ContourVector = [0, 0, 0];
     const ints = this.generateIntervals({ form: 'combinatorial interval' });
     ints.forEach(([a, b]) => {
-      const delta = b - a;
+      const delta = this.interval(a, b);
       if (delta > 0) {
         ccv[0] += 1;
       } else if (delta === 0) {
@@ -173,8 +222,9 @@ class Morph {
     // the ranking vector by a number representing its "rank" from least to 
     // greatest. If all values are equal, the vector consists of 1s. In a 
     // strictly monotonically increasing morphology, the vector goes from 1 to 
-    // L.
-    const sorted = this.data.slice().sort((a, b) => a - b);
+    // L. Ranks are dense, so equal values share a rank and the next value up
+    // takes the next rank.
+    const sorted = [...new Set(this.data)].sort((a, b) => a - b);
     return this.data.map((n) => sorted.indexOf(n) + 1);
   }
 
@@ -191,6 +241,66 @@ class Morph {
     }
     return magMatrix;
   }
+
+  // A morph of new values derived from this one (a window, a resampling, a
+  // rearrangement), in the same modular space. Weights belong to the original
+  // points, so they are only kept when given (or by slice and select).
+  withData(
+    data: number[],
+    { weights = undefined }: { weights?: number[] } = {}
+  ) {
+    return new Morph(data, { modulus: this.modulus, weights });
+  }
+
+  // The points from start up to (not including) end, with their weights
+  slice(start: number, end: number) {
+    return this.withData(this.data.slice(start, end), {
+      weights: this.weights?.slice(start, end)
+    });
+  }
+
+  // The points at the given indices, in that order, with their weights
+  select(indices: number[]) {
+    const weights = this.weights;
+    return this.withData(indices.map(i => this.data[i]), {
+      weights: weights && indices.map(i => weights[i])
+    });
+  }
+
+  // Transformations; each returns a new Morph
+
+  transpose(amount: number) {
+    const data = this.data.map(n => n + amount);
+    return new Morph(data, { modulus: this.modulus, weights: this.weights });
+  }
+
+  invert(axis: number = this.data[0]) { // mirrors the values around axis
+    const data = this.data.map(n => 2 * axis - n);
+    return new Morph(data, { modulus: this.modulus, weights: this.weights });
+  }
+
+  retrograde() {
+    const weights = this.weights?.slice().reverse();
+    return new Morph(this.data.slice().reverse(), {
+      modulus: this.modulus,
+      weights
+    });
+  }
+
+  // augmentation (factor > 1) or diminution (factor < 1) of the distances
+  // from origin
+  scale(factor: number, origin: number = this.data[0]) {
+    const data = this.data.map(n => origin + factor * (n - origin));
+    return new Morph(data, { modulus: this.modulus, weights: this.weights });
+  }
+
+  rotate(steps: number = 1) { // moves the first `steps` values to the end
+    const s = mod(steps, this.data.length);
+    const data = [...this.data.slice(s), ...this.data.slice(0, s)];
+    const weights = this.weights &&
+      [...this.weights.slice(s), ...this.weights.slice(0, s)];
+    return new Morph(data, { modulus: this.modulus, weights });
+  }
 }
 
 type IntervalIndexForm = (
@@ -202,6 +312,279 @@ type IntervalIndexForm = (
   'combinatorial interval'
 )
 
+type DimensionCombination = 'city block' | 'euclidean';
+
+// A morph whose points are vectors rather than scalars, e.g. simultaneous
+// pitch, loudness and duration values. Each dimension can be treated as its
+// own 1-d Morph.
+class MultidimensionalMorph {
+  data: number[][];
+
+  constructor(data: number[][] | number[]) {
+    if (isNestedArray(data)) {
+      this.data = data as number[][];
+    } else {
+      this.data = (data as number[]).map(n => [n]);
+    }
+    if (this.data.length < 2) {
+      throw new Error('Arrays must have at least 2 elements');
+    }
+    const dims = this.data[0].length;
+    if (dims < 1) {
+      throw new Error('Points must have at least 1 dimension');
+    }
+    if (this.data.some(point => point.length !== dims)) {
+      throw new Error('All points must have the same number of dimensions');
+    }
+  }
+
+  get dimensions() {
+    return this.data[0].length;
+  }
+
+  // the 1-d morph formed by a single dimension of every point
+  dimension(d: number) {
+    if (d < 0 || d >= this.dimensions) {
+      throw new Error('Dimension out of range');
+    }
+    return new Morph(this.data.map(point => point[d]));
+  }
+
+  get morphs() {
+    return [...Array(this.dimensions)].map((_, d) => this.dimension(d));
+  }
+
+  derivate(order=1, absolute=false) { // nth order difference, per dimension
+    const derivs = this.morphs.map(m => m.derivate(order, absolute));
+    return derivs[0].map((_, i) => derivs.map(deriv => deriv[i]));
+  }
+
+  generateIntervals(opts: {
+    form?: IntervalIndexForm,
+    adjacencyInterval?: number,
+    fundamentalValue?: number[],
+    fundamentalIndex?: number
+  } = {}) {
+    const { fundamentalValue, ...rest } = opts;
+    if (fundamentalValue !== undefined && 
+        fundamentalValue.length !== this.dimensions) {
+      throw new Error('Fundamental value must have one value per dimension');
+    }
+    const ints = this.morphs.map((m, d) => m.generateIntervals({
+      ...rest,
+      fundamentalValue: fundamentalValue && fundamentalValue[d]
+    }));
+    return ints[0].map((_, i) => {
+      const a = ints.map(dimInts => dimInts[i][0]);
+      const b = ints.map(dimInts => dimInts[i][1]);
+      return [a, b] as [number[], number[]];
+    });
+  }
+
+  get linearContourVector() { // one contour vector per dimension
+    return this.morphs.map(m => m.linearContourVector);
+  }
+
+  get combinatorialContourVector() {
+    return this.morphs.map(m => m.combinatorialContourVector);
+  }
+}
+
+// Structured breakdown of a metric's computation, returned by every metric
+// when called with `verbose: true`. Useful for checking results against the
+// worked examples in the paper.
+type MetricTrace = {
+  value: number,
+  intervals?: { m: [number, number][], n: [number, number][] },
+  deltas?: { m: number[], n: number[] }, // delta applied to each interval
+  psi?: number[], // comparison of each pair of corresponding deltas
+  sum?: number,
+  scaling?: Record<string, number>, // denominators, e.g. maxInt, Lm, L - 1
+  normalization?: string, // the final step, in terms of the above
+  grain?: number,
+  degreeOfCombinatoriality?: { m: number, n: number }
+};
+
+type Traced<V extends boolean> = V extends true ? MetricTrace : number;
+
+// returns the bare value, or the full trace when `verbose` is set; the trace
+// is only built when it is asked for
+const traced = <V extends boolean>(
+  verbose: V,
+  value: number,
+  trace: () => Omit<MetricTrace, 'value'>
+) => {
+  return (verbose ? { value, ...trace() } : value) as Traced<V>;
+}
+
+// adjacency intervals of the (order - 1)th absolute derivative, i.e. the
+// pairs whose differences make up `derivate(order, true)`
+const derivativeIntervals = (morph: Morph, order: number) => {
+  if (order === 1) return morph.generateIntervals();
+  return new Morph(morph.derivate(order - 1, true)).generateIntervals();
+}
+
+const weightedSum = (values: number[], weights: number[]) => {
+  return values.reduce((a, b, i) => a + b * weights[i], 0);
+}
+
+// weights of the nth order differences of a morph: each difference spans
+// order + 1 points, and takes their mean weight (1 for unweighted morphs)
+const differenceWeights = (morph: Morph, order: number = 1) => {
+  const count = morph.data.length - order;
+  const weights = morph.weights;
+  if (weights === undefined) return Array(count).fill(1) as number[];
+  return [...Array(count)].map((_, i) => {
+    const span = weights.slice(i, i + order + 1);
+    return span.reduce((a, b) => a + b, 0) / span.length;
+  });
+}
+
+// weights of corresponding intervals of two morphs: those of the weighted
+// morph, or the mean of both when both are weighted
+const jointWeights = (
+  m: Morph,
+  n: Morph,
+  mWeights: number[],
+  nWeights: number[]
+) => {
+  if (m.weights === undefined) return nWeights;
+  if (n.weights === undefined) return mWeights;
+  return mWeights.map((w, i) => (w + nWeights[i]) / 2);
+}
+
+// the weights of corresponding nth order differences of two ordered morphs,
+// and their sum, which is L - order when neither morph is weighted
+const orderedWeights = (m: Morph, n: Morph, order: number = 1) => {
+  const weights = jointWeights(
+    m,
+    n,
+    differenceWeights(m, order),
+    differenceWeights(n, order)
+  );
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) {
+    throw new Error('Weights must sum to more than 0');
+  }
+  return {
+    weights,
+    total,
+    weighted: m.weights !== undefined || n.weights !== undefined
+  };
+}
+
+// the trace denominator of an ordered metric: `label` (e.g. 'L - 1'), or the
+// sum of the weights
+const orderedScaling = (
+  w: ReturnType<typeof orderedWeights>,
+  label: string
+): Record<string, number> => {
+  return w.weighted ? { 'sum of weights': w.total } : { [label]: w.total };
+}
+
+// the trace denominators of an unordered linear metric, as [label, value]
+// pairs for m and n: L - 1, or the sum of the weights of weighted morphs
+const unorderedDenominators = (m: Morph, n: Morph) => {
+  const weighted = m.weights !== undefined || n.weights !== undefined;
+  return ([[m, 'm'], [n, 'n']] as [Morph, string][]).map(([morph, name]) => {
+    const total = differenceWeights(morph).reduce((a, b) => a + b, 0);
+    const label = weighted ? `sum of weights_${name}` : `L_${name} - 1`;
+    return [label, total] as [string, number];
+  });
+}
+
+// the weighted mean of a morph's adjacent deltas
+const meanDelta = (morph: Morph, deltas: number[]) => {
+  const weights = differenceWeights(morph);
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) {
+    throw new Error('Weights must sum to more than 0');
+  }
+  return weightedSum(deltas, weights) / total;
+}
+
+// the fraction of the total weight of some intervals that goes up, stays the
+// same and goes down, from their delta.sgn directions
+const weightedContourVector = (dirs: number[], weights: number[]) => {
+  const vec: ContourVector = [0, 0, 0];
+  dirs.forEach((dir, i) => {
+    vec[dir < 0 ? 0 : dir === 0 ? 1 : 2] += weights[i];
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+  return vec.map(v => v / total) as ContourVector;
+}
+
+// Polansky, 1996, pg. 307 - 308
+// Combinatorial intervals between points at most `maxDistance` indices apart
+// (by default all Lm of them), each weighted by `distanceWeights[d - 1]` for
+// an index distance of d (by default 1), along with the resulting degree of
+// combinatoriality. The weights of weighted morphs are included.
+const partialCombinatorialIntervals = (
+  morph: Morph,
+  maxDistance: number = morph.data.length - 1,
+  distanceWeights?: number[]
+) => {
+  const L = morph.data.length;
+  if (!Number.isInteger(maxDistance) || maxDistance < 1) {
+    throw new Error('Max distance must be a positive integer');
+  }
+  const reach = Math.min(maxDistance, L - 1);
+  if (distanceWeights !== undefined && distanceWeights.length < reach) {
+    throw new Error('There must be a distance weight for each index distance');
+  }
+  const intervals: [number, number][] = [];
+  const weights: number[] = [];
+  for (let i = 0; i < L - 1; i++) {
+    for (let j = i + 1; j <= Math.min(i + reach, L - 1); j++) {
+      intervals.push([morph.data[i], morph.data[j]]);
+      const distanceWeight = distanceWeights ? distanceWeights[j - i - 1] : 1;
+      weights.push(distanceWeight * morph.intervalWeight(i, j));
+    }
+  }
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  if (!(totalWeight > 0)) {
+    throw new Error('Weights must sum to more than 0');
+  }
+  return {
+    intervals,
+    weights,
+    totalWeight,
+    degree: degOfComb(intervals.length, L),
+    partial: reach < L - 1 || distanceWeights !== undefined,
+    weighted: morph.weights !== undefined
+  };
+}
+
+// the weights of corresponding combinatorial intervals of two morphs, their
+// sum, and whether that sum differs from Lm
+const jointCombinatorialWeights = (
+  m: Morph,
+  n: Morph,
+  mComb: ReturnType<typeof partialCombinatorialIntervals>,
+  nComb: ReturnType<typeof partialCombinatorialIntervals>
+) => {
+  const weights = jointWeights(m, n, mComb.weights, nComb.weights);
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) {
+    throw new Error('Weights must sum to more than 0');
+  }
+  return {
+    weights,
+    total,
+    weighted: mComb.partial || mComb.weighted || nComb.weighted
+  };
+}
+
+// the denominator of a (possibly partial or weighted) combinatorial metric,
+// for traces
+const combinatorialScaling = (
+  w: ReturnType<typeof jointCombinatorialWeights>
+): Record<string, number> => {
+  return w.weighted ?
+    { 'sum of weights': w.total } :
+    { Lm: w.weights.length };
+}
+
 class MorphologicalMetric {
   morphs: [Morph, Morph];
   ordered: boolean;
@@ -210,25 +593,37 @@ class MorphologicalMetric {
     if (ordered && morphs[0].data.length !== morphs[1].data.length) {
       throw new Error('Ordered mms must have the same number of points');
     }
+    if (morphs[0].modulus !== morphs[1].modulus) {
+      throw new Error('Morphs must have the same modulus');
+    }
 
     this.morphs = morphs;
     this.ordered = ordered;
   };
 
+  // the size of the interval between two values, which is the interval class
+  // when the morphs share a modulus
+  private get defaultDelta() {
+    const modulus = this.morphs[0].modulus;
+    return modulus === undefined ?
+      (a: number, b: number) => Math.abs(a - b) :
+      modularDelta(modulus).interval;
+  }
+
   // Polansky, 1996, pg. 300 - 301
   // Note: LP's equation as written out, for the squared form of OLM is 
   // incorrect. The `(m_i - m_i+1)^2 - (n_i - n_i+1)^2` must be wrapped in
   // an absolute value function, otherwise the result is sometimes imaginary.
   // Also, the example of the OLM sqaured form (pg 301), 2nd order is incorrect: 
   // it should be `OLM, no delta^2 (2nd order) = (4 ^ 0.5 + 3 ^ 0.5) / 3 = ~1.244`
-  OLMOriginal({
+  OLMOriginal<V extends boolean = false>({
     squared = false,
     order = 1,
-    verbose = false
+    verbose = false as V
   }: {
     squared?: boolean,
     order?: number,
-    verbose?: boolean
+    verbose?: V
   } = {}) { // ordered linear magnitude
     if (!this.ordered) {
       throw new Error('Morphs must be ordered for OLM');
@@ -245,23 +640,39 @@ class MorphologicalMetric {
       }
     };
     const mDeriv = m.derivate(order, true);
-    const out = mDeriv.map((mDelta, i) => {
-      const nDelta = n.derivate(order, true)[i];
+    const nDeriv = n.derivate(order, true);
+    const psis = mDeriv.map((mDelta, i) => {
+      const nDelta = nDeriv[i];
       const difference = diff(mDelta, nDelta);
       return difference
-    }).reduce((a, b) => a + b, 0);
-    return out / (m.data.length - order);
+    });
+    const w = orderedWeights(m, n, order);
+    const out = weightedSum(psis, w.weights);
+    const value = out / w.total;
+    return traced(verbose, value, () => ({
+      intervals: {
+        m: derivativeIntervals(m, order),
+        n: derivativeIntervals(n, order)
+      },
+      deltas: { m: mDeriv, n: nDeriv },
+      psi: psis,
+      sum: out,
+      scaling: orderedScaling(w, 'L - order'),
+      normalization: w.weighted ? 'sum / sum of weights' : 'sum / (L - order)'
+    }));
   }
 
   // Polansky, 1996, pg. 300
-  SobalevOLM({
+  SobalevOLM<V extends boolean = false>({
     maxOrder = 2, // inclusive
     minOrder = 0,
-    weights = undefined
+    weights = undefined,
+    verbose = false as V
   }: {
     maxOrder?: number,
     minOrder?: number,
-    weights?: number[]
+    weights?: number[],
+    verbose?: V
   } = {}) {
     if (!this.ordered) {
       throw new Error('Morphs must be ordered for SobalevOLM');
@@ -270,95 +681,160 @@ class MorphologicalMetric {
       throw new Error('Max order must be greater than min order');
     }
     if (weights === undefined) {
-      weights = Array(maxOrder - minOrder).fill(1) as number[];
+      weights = Array(maxOrder - minOrder + 1).fill(1) as number[];
     } else if (weights.length !== maxOrder - minOrder + 1) {
       throw new Error('Weights must be the same length as the number of orders');
     }
     const [m, n] = this.morphs;
-    const normedSums = [];
+    const normedSums: number[] = [];
+    const mDerivs: number[] = [], nDerivs: number[] = [], psis: number[] = [];
     for (let i = minOrder; i <= maxOrder; i++) {
       const mDeriv = m.derivate(i, true);
       const nDeriv = n.derivate(i, true);
       let sum = 0;
       for (let j = 0; j < mDeriv.length; j++) {
         sum += Math.abs(mDeriv[j] - nDeriv[j]);
+        psis.push(Math.abs(mDeriv[j] - nDeriv[j]));
       }
+      mDerivs.push(...mDeriv);
+      nDerivs.push(...nDeriv);
       normedSums.push(sum / mDeriv.length);
     }
     const weightedSums = normedSums.map((sum, i) => sum * weights![i]);
     const summedWeights = weights.reduce((a, b) => a + b, 0);
-    return weightedSums.reduce((a, b) => a + b, 0) / summedWeights;
+    const sum = weightedSums.reduce((a, b) => a + b, 0);
+    const value = sum / summedWeights;
+    return traced(verbose, value, () => {
+      const scaling: Record<string, number> = { 'sum of weights': summedWeights };
+      normedSums.forEach((normedSum, i) => {
+        scaling[`order ${minOrder + i} mean`] = normedSum;
+      });
+      return {
+        deltas: { m: mDerivs, n: nDerivs },
+        psi: psis,
+        sum,
+        scaling,
+        normalization: 'sum of weighted order means / sum of weights'
+      };
+    });
   }
 
   // Polansky, 1996, pg. 299
-  MagnitudeMetric({
+  MagnitudeMetric<V extends boolean = false>({
     absolute = true, 
-    normalized = true
+    normalized = true,
+    verbose = false as V
   }: {
     absolute?: boolean,
-    normalized?: boolean
+    normalized?: boolean,
+    verbose?: V
   } = {}) { 
     const [m, n] = this.morphs;
     const mDeriv = m.derivate(1, absolute);
     const nDeriv = n.derivate(1, absolute);
-    let out = mDeriv.map((_, i) => {
+    const psis = mDeriv.map((_, i) => {
       if (absolute) {
         return Math.abs(mDeriv[i] - nDeriv[i]);
       } else {
         return mDeriv[i] - nDeriv[i];
       }
-    }).reduce((a, b) => a + b, 0);
+    });
+    const w = orderedWeights(m, n);
+    const sum = weightedSum(psis, w.weights);
+    let out = sum;
     if (normalized) {
-      out /= mDeriv.length;
+      out /= w.total;
     }
-    return out
+    const denom = w.weighted ? 'sum of weights' : '(L - 1)';
+    return traced(verbose, out, () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeriv, n: nDeriv },
+      psi: psis,
+      sum,
+      scaling: normalized ? orderedScaling(w, 'L - 1') : {},
+      normalization: normalized ? `sum / ${denom}` : 'sum'
+    }));
   }
 
   // Polansky, 1996, pg. 302
-  OLMGeneral({
+  OLMGeneral<V extends boolean = false>({
     delta = (a: number, b: number) => Math.abs(a - b),
-    order = 1
+    order = 1,
+    verbose = false as V
   }: {
     delta?: (a: number, b: number) => number,
-    order?: number
+    order?: number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mDeriv = m.derivate(order, true);
     const nDeriv = n.derivate(order, true);
-    let out = mDeriv.map((_, i) => {
+    const psis = mDeriv.map((_, i) => {
       return delta(mDeriv[i], nDeriv[i]);
-    }).reduce((a, b) => a + b, 0);
-    return out / mDeriv.length;
+    });
+    const w = orderedWeights(m, n, order);
+    const out = weightedSum(psis, w.weights);
+    return traced(verbose, out / w.total, () => ({
+      intervals: {
+        m: derivativeIntervals(m, order),
+        n: derivativeIntervals(n, order)
+      },
+      deltas: { m: mDeriv, n: nDeriv },
+      psi: psis,
+      sum: out,
+      scaling: orderedScaling(w, 'L - order'),
+      normalization: w.weighted ? 'sum / sum of weights' : 'sum / (L - order)'
+    }));
   }
 
   // Polansky, 1996. 303 - 304 (needs to be tested)
-  OLMMetaInterval({ // ordered linear magnitude metric, meta-interval form
+  OLMMetaInterval<V extends boolean = false>({ // ordered linear magnitude metric, meta-interval form
     psi = (a: number, b: number): number => Math.abs(a - b),
     delta = (a: number, b: number): number => Math.abs(a - b),
+    verbose = false as V
   }: {
     psi?: (a: number, b: number) => number,
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   }={}) {
     const [m, n] = this.morphs;
     const mDeriv = m.derivate(1, true);
     const nDeriv = n.derivate(1, true);
     let maxInt = 0;
-    let out = mDeriv.map((_, i) => {
-      const mDelta = delta(mDeriv[i], mDeriv[i+1]);
+    const mDeltas: number[] = [], nDeltas: number[] = [];
+    // meta-intervals: intervals between adjacent first-order intervals
+    let out = mDeriv.slice(1).map((_, i) => {
+      const mDelta = delta(mDeriv[i], mDeriv[i + 1]);
       const nDelta = delta(nDeriv[i], nDeriv[i + 1]);
+      mDeltas.push(mDelta);
+      nDeltas.push(nDelta);
       maxInt = Math.max(maxInt, mDelta, nDelta);
       return psi(mDelta, nDelta);
     })
-    return out.reduce((a, b) => a + b, 0) / (out.length * maxInt);
+    const sum = out.reduce((a, b) => a + b, 0);
+    const value = sum / (out.length * maxInt);
+    return traced(verbose, value, () => ({
+      intervals: {
+        m: new Morph(mDeriv).generateIntervals(),
+        n: new Morph(nDeriv).generateIntervals()
+      },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: out,
+      sum,
+      scaling: { 'L - 2': out.length, maxInt },
+      normalization: 'sum / ((L - 2) * maxInt)'
+    }));
   }
 
   // Polansky, 1996, pg. 304, needs to be tested
-  ULMMetaInterval({ // unordered linear magnitude metric, meta-interval form
+  ULMMetaInterval<V extends boolean = false>({ // unordered linear magnitude metric, meta-interval form
     psi = (a: number, b: number): number => Math.abs(a - b),
-    delta = (a: number, b: number): number => Math.abs(a - b),
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
     psi?: (a: number, b: number) => number,
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mDeriv = m.data.slice(1).map((x, i) => delta(x, m.data[i]));
@@ -367,13 +843,20 @@ class MorphologicalMetric {
     const nDeriv = n.data.slice(1).map((x, i) => delta(x, n.data[i]));
     const nSum = nDeriv.reduce((a, b) => a + b, 0);
     const nNormed = nSum / nDeriv.length;
-    return psi(mNormed, nNormed);
+    const value = psi(mNormed, nNormed);
+    return traced(verbose, value, () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeriv, n: nDeriv },
+      psi: [value],
+      scaling: { 'mean m delta': mNormed, 'mean n delta': nNormed },
+      normalization: 'psi(sum_m / (L_m - 1), sum_n / (L_n - 1))'
+    }));
   }
 
 
   // Polansky, 1996, pg. 305
-  OLMGeneralizedInterval({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  OLMGeneralizedInterval<V extends boolean = false>({
+    delta = this.defaultDelta,
     psi = (a: number, b: number) => Math.abs(a - b),
     mIntervalForm = 'adjacency interval',
     mAdjacencyInterval = 1,
@@ -382,7 +865,8 @@ class MorphologicalMetric {
     nIntervalForm = 'adjacency interval',
     nAdjacencyInterval = 1,
     nFundamentalValue = undefined,
-    nFundamentalIndex = undefined
+    nFundamentalIndex = undefined,
+    verbose = false as V
   }: {
     delta?: (a: number, b: number) => number,
     psi?: (a: number, b: number) => number,
@@ -393,7 +877,8 @@ class MorphologicalMetric {
     nIntervalForm?: IntervalIndexForm,
     nAdjacencyInterval?: number,
     nFundamentalValue?: number,
-    nFundamentalIndex?: number
+    nFundamentalIndex?: number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     let maxInt = 0;
@@ -418,31 +903,92 @@ class MorphologicalMetric {
     nIntervals.forEach(nInt => {
       maxInt = Math.max(maxInt, nInt[0], nInt[1])
     });
+    const mDeltas: number[] = [], nDeltas: number[] = [];
     const psiVals = mIntervals.map((mInt, i) => {
       const nInt = nIntervals[i];
       const mDelta = delta(mInt[0], mInt[1]);
       const nDelta = delta(nInt[0], nInt[1]);
+      mDeltas.push(mDelta);
+      nDeltas.push(nDelta);
       return psi(mDelta, nDelta);
     });
-    return psiVals.reduce((a, b) => a + b, 0) / (psiVals.length * maxInt);
+    const sum = psiVals.reduce((a, b) => a + b, 0);
+    const value = sum / (psiVals.length * maxInt);
+    return traced(verbose, value, () => ({
+      intervals: { m: mIntervals, n: nIntervals },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: psiVals,
+      sum,
+      scaling: { 'number of intervals': psiVals.length, maxInt },
+      normalization: 'sum / (number of intervals * maxInt)'
+    }));
+  }
+
+  // ULD and UCD of weighted morphs: the contour vectors count the weight of
+  // each interval, as a fraction of the sum of the weights
+  private weightedDirection<V extends boolean>(
+    mDirs: number[],
+    nDirs: number[],
+    mWeights: number[],
+    nWeights: number[],
+    verbose: V,
+    combinatorial: boolean
+  ) {
+    const [m, n] = this.morphs;
+    const mVec = weightedContourVector(mDirs, mWeights);
+    const nVec = weightedContourVector(nDirs, nWeights);
+    const diffs = mVec.map((mVal, i) => Math.abs(mVal - nVec[i]));
+    const sum = diffs.reduce((a, b) => a + b, 0);
+    const form = combinatorial ? 'combinatorial interval' : undefined;
+    return traced(verbose, sum / 2, () => ({
+      intervals: {
+        m: m.generateIntervals({ form }),
+        n: n.generateIntervals({ form })
+      },
+      deltas: { m: mVec, n: nVec },
+      psi: diffs,
+      sum,
+      scaling: {
+        'sum of weights_m': mWeights.reduce((a, b) => a + b, 0),
+        'sum of weights_n': nWeights.reduce((a, b) => a + b, 0),
+        '2': 2
+      },
+      normalization: 'sum of |v_m - v_n| / 2, for weighted contour vectors v'
+    }));
   }
 
   // unordered linear direction
   // Polansky, 1996, pg. 311 - 312
-  ULD({ verbose = false }: { verbose?: boolean } = {}) {
+  ULD<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
+    if (m.weights !== undefined || n.weights !== undefined) {
+      return this.weightedDirection(
+        m.directionInterval,
+        n.directionInterval,
+        differenceWeights(m),
+        differenceWeights(n),
+        verbose,
+        false
+      );
+    }
     const mDirVec = m.linearContourVector;
     const nDirVec = n.linearContourVector;
     const diffs = mDirVec.map((mDir, i) => Math.abs(mDir - nDirVec[i]))
     const sum = diffs.reduce((a, b) => a + b, 0);
     const grain = 1 / ((m.data.length - 1)* 2);
-    if (verbose) {
-      return {
-        value: sum * grain,
-        grain
-      }
-    }
-    return sum * grain;
+    return traced(verbose, sum * grain, () => ({
+      grain,
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDirVec, n: nDirVec },
+      psi: diffs,
+      sum,
+      scaling: { '2 * (L - 1)': (m.data.length - 1) * 2 },
+      normalization: 'sum / (2 * (L - 1))'
+    }));
   }
 
   // Ordered Linear Direction
@@ -450,58 +996,111 @@ class MorphologicalMetric {
   // "The OLD measures the percentage of different contour values between 
   // corresponding linear intervals."
 
-  OLD({ verbose = false }: { verbose?: boolean } = {}) {
+  OLD<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
     const mDI = m.directionInterval;
     const nDI = n.directionInterval;
 
     const diffs = mDI.map((mDir, i) => delta.diff(mDir, nDI[i]));
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    const grain = 1 / (m.data.length - 1);
-    if (verbose) {
-      return { value: sum * grain, grain }
-    } else {
-      return sum * grain;
-    }
+    const w = orderedWeights(m, n);
+    const sum = weightedSum(diffs, w.weights);
+    const grain = 1 / w.total;
+    return traced(verbose, sum * grain, () => ({
+      grain,
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDI, n: nDI },
+      psi: diffs,
+      sum,
+      scaling: orderedScaling(w, 'L - 1'),
+      normalization: w.weighted ? 'sum / sum of weights' : 'sum / (L - 1)'
+    }));
   }
 
   // Ordered Combinatorial Direction
   // Polansky, 1996, pg. 313 - 314
-  OCD({ verbose = false }: { verbose?: boolean } = {}) {
+  OCD<V extends boolean = false>({
+    maxDistance = undefined,
+    distanceWeights = undefined,
+    verbose = false as V
+  }: {
+    maxDistance?: number,
+    distanceWeights?: number[],
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
-    const mInts = m.generateIntervals({ form: 'combinatorial interval' });
-    const nInts = n.generateIntervals({ form: 'combinatorial interval' });
-    const mSgns = mInts.map(mInt => delta.sgn(mInt[0], mInt[1]));
-    const nSgns = nInts.map(nInt => delta.sgn(nInt[0], nInt[1]));
+    const mComb = partialCombinatorialIntervals(m, maxDistance, distanceWeights);
+    const nComb = partialCombinatorialIntervals(n, maxDistance, distanceWeights);
+    const [mInts, nInts] = [mComb.intervals, nComb.intervals];
+    const w = jointCombinatorialWeights(m, n, mComb, nComb);
+    const mSgns = mInts.map(mInt => m.direction(mInt[0], mInt[1]));
+    const nSgns = nInts.map(nInt => n.direction(nInt[0], nInt[1]));
     const diffs = mSgns.map((mSgn, i) => delta.diff(mSgn, nSgns[i]));
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    const grain = 1 / Lm(m.data.length);
-    if (verbose) {
-      return { value: sum * grain, grain }
-    } else {
-      return sum * grain;
-    }
+    const sum = weightedSum(diffs, w.weights);
+    const grain = 1 / w.total;
+    return traced(verbose, sum * grain, () => ({
+      grain,
+      intervals: { m: mInts, n: nInts },
+      deltas: { m: mSgns, n: nSgns },
+      psi: diffs,
+      sum,
+      scaling: combinatorialScaling(w),
+      normalization: w.weighted ? 'sum / sum of weights' : 'sum / Lm',
+      degreeOfCombinatoriality: { m: mComb.degree, n: nComb.degree }
+    }));
   }
 
   // Unordered Combinatorial Direction
   // Polansky, 1996, pg. 314 - 315
-  UCD({ verbose = false }: { verbose?: boolean } = {}) {
+  UCD<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
+    if (m.weights !== undefined || n.weights !== undefined) {
+      const [mComb, nComb] = [
+        partialCombinatorialIntervals(m),
+        partialCombinatorialIntervals(n)
+      ];
+      return this.weightedDirection(
+        mComb.intervals.map(([a, b]) => m.direction(a, b)),
+        nComb.intervals.map(([a, b]) => n.direction(a, b)),
+        mComb.weights,
+        nComb.weights,
+        verbose,
+        true
+      );
+    }
     const mVec = m.combinatorialContourVector;
     const nVec = n.combinatorialContourVector;
     const diffs = mVec.map((mVal, i) => Math.abs(mVal - nVec[i]));
     const sum = diffs.reduce((a, b) => a + b, 0);
     const grain = 1 / (Lm(m.data.length) * 2);
-    if (verbose) {
-      return { value: sum * grain, grain }
-    } else {
-      return sum * grain;
-    }
+    return traced(verbose, sum * grain, () => ({
+      grain,
+      intervals: {
+        m: m.generateIntervals({ form: 'combinatorial interval' }),
+        n: n.generateIntervals({ form: 'combinatorial interval' })
+      },
+      deltas: { m: mVec, n: nVec },
+      psi: diffs,
+      sum,
+      scaling: { '2 * Lm': Lm(m.data.length) * 2 },
+      normalization: 'sum / (2 * Lm)'
+    }));
   }
 
   // Unordered Linear Direction, Unequal Length Form
   // Polansky, 1996, pg. 315 - 316
-  ULDUnequalLengthForm() {
+  ULDUnequalLengthForm<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
     const mDirVec = m.linearContourVector;
     const nDirVec = n.linearContourVector;
@@ -509,12 +1108,27 @@ class MorphologicalMetric {
     const nNormed = nDirVec.map(nDir => nDir / (n.data.length - 1));
     const diffs = mNormed.map((mDir, i) => Math.abs(mDir - nNormed[i]))
     const sum = diffs.reduce((a, b) => a + b, 0);
-    return sum / 2;
+    return traced(verbose, sum / 2, () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mNormed, n: nNormed },
+      psi: diffs,
+      sum,
+      scaling: {
+        'L_m - 1': m.data.length - 1,
+        'L_n - 1': n.data.length - 1,
+        '2': 2
+      },
+      normalization: 'sum of |lcv_m / (L_m - 1) - lcv_n / (L_n - 1)| / 2'
+    }));
   }
 
   // Unordered Combinatorial Direction, Unequal Length Form
   // Polansky, 1996, pg. 315 - 316
-  UCDUnequalLengthForm() {
+  UCDUnequalLengthForm<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
     const mVec = m.combinatorialContourVector;
     const nVec = n.combinatorialContourVector;
@@ -522,30 +1136,56 @@ class MorphologicalMetric {
     const nNormed = nVec.map(nVal => nVal / Lm(n.data.length));
     const diffs = mNormed.map((mVal, i) => Math.abs(mVal - nNormed[i]))
     const sum = diffs.reduce((a, b) => a + b, 0);
-    return sum / 2;
+    return traced(verbose, sum / 2, () => ({
+      intervals: {
+        m: m.generateIntervals({ form: 'combinatorial interval' }),
+        n: n.generateIntervals({ form: 'combinatorial interval' })
+      },
+      deltas: { m: mNormed, n: nNormed },
+      psi: diffs,
+      sum,
+      scaling: {
+        'Lm_m': Lm(m.data.length),
+        'Lm_n': Lm(n.data.length),
+        '2': 2
+      },
+      normalization: 'sum of |ccv_m / Lm_m - ccv_n / Lm_n| / 2'
+    }));
   }
 
   // Polansky, 1996, pg. 318 - 319 (eventually, this should just replace
   // the normal OLM above ... not sure why LP repeated himself)
-  OLMCanonical({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  OLMCanonical<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mDeltas = m.data.slice(1).map((x, i) => delta(m.data[i], x));
     const nDeltas = n.data.slice(1).map((x, i) => delta(n.data[i], x));
     const diffs = mDeltas.map((mDelta, i) => Math.abs(mDelta - nDeltas[i]));
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    return sum / (m.data.length - 1);
+    const w = orderedWeights(m, n);
+    const sum = weightedSum(diffs, w.weights);
+    return traced(verbose, sum / w.total, () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: diffs,
+      sum,
+      scaling: orderedScaling(w, 'L - 1'),
+      normalization: w.weighted ? 'sum / sum of weights' : 'sum / (L - 1)'
+    }));
   }
 
 
   // Polansky, 1996, pg. 319
-  OLMScaled({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  OLMScaled<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     let maxInt = 0;
@@ -560,42 +1200,62 @@ class MorphologicalMetric {
       return out
     });
     const diffs = mDeltas.map((mDelta, i) => Math.abs(mDelta - nDeltas[i]));
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    return sum / ((m.data.length - 1) * maxInt);
+    const w = orderedWeights(m, n);
+    const sum = weightedSum(diffs, w.weights);
+    const denom = w.weighted ? 'sum of weights' : '(L - 1)';
+    return traced(verbose, sum / (w.total * maxInt), () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: diffs,
+      sum,
+      scaling: { ...orderedScaling(w, 'L - 1'), maxInt },
+      normalization: `sum / (${denom} * maxInt)`
+    }));
   }
 
   // Polansky, 1996, pg. 320
-  ULM({
-    delta = (a: number, b: number) => Math.abs(a - b),
-    scaling = 'none'
+  ULM<V extends boolean = false>({
+    delta = this.defaultDelta,
+    scaling = 'none',
+    verbose = false as V
   }: {
     delta?: (a: number, b: number) => number,
-    scaling?: 'none' | 'absolute' | 'relative'
+    scaling?: 'none' | 'absolute' | 'relative',
+    verbose?: V
   } = {}) {
 
     if (scaling === 'none') {
       const [m, n] = this.morphs;
       const mDeltas = m.data.slice(1).map((x, i) => delta(m.data[i], x));
-      const mSum = mDeltas.reduce((a, b) => a + b, 0);
-      const mNormed = mSum / mDeltas.length;
+      const mNormed = meanDelta(m, mDeltas);
       const nDeltas = n.data.slice(1).map((x, i) => delta(n.data[i], x));
-      const nSum = nDeltas.reduce((a, b) => a + b, 0);
-      const nNormed = nSum / nDeltas.length;
-      return Math.abs(mNormed - nNormed);
+      const nNormed = meanDelta(n, nDeltas);
+      return traced(verbose, Math.abs(mNormed - nNormed), () => {
+        const [[dm, mTotal], [dn, nTotal]] = unorderedDenominators(m, n);
+        return {
+          intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+          deltas: { m: mDeltas, n: nDeltas },
+          psi: [Math.abs(mNormed - nNormed)],
+          scaling: { [dm]: mTotal, [dn]: nTotal },
+          normalization: `|sum_m / (${dm}) - sum_n / (${dn})|`
+        };
+      });
     } else if (scaling === 'relative') {
-      return this.ULMRelativeScaling({ delta });
+      return this.ULMRelativeScaling({ delta, verbose });
     } else if (scaling === 'absolute') {
-      return this.ULMAbsoluteScaling({ delta });
+      return this.ULMAbsoluteScaling({ delta, verbose });
     }
     
   }
 
   // Polansky, 1996, pg. 321
 
-  ULMAbsoluteScaling({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  ULMAbsoluteScaling<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     let maxInt = 0;
@@ -609,19 +1269,28 @@ class MorphologicalMetric {
       maxInt = Math.max(maxInt, out);
       return out
     });
-    const mSum = mDeltas.reduce((a, b) => a + b, 0);
-    const mNormed = mSum / mDeltas.length;
-    const nSum = nDeltas.reduce((a, b) => a + b, 0);
-    const nNormed = nSum / nDeltas.length;
+    const mNormed = meanDelta(m, mDeltas);
+    const nNormed = meanDelta(n, nDeltas);
     const preScaled = Math.abs(mNormed - nNormed);
-    return preScaled / maxInt;
+    return traced(verbose, preScaled / maxInt, () => {
+      const [[dm, mTotal], [dn, nTotal]] = unorderedDenominators(m, n);
+      return {
+        intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+        deltas: { m: mDeltas, n: nDeltas },
+        psi: [preScaled],
+        scaling: { [dm]: mTotal, [dn]: nTotal, maxInt },
+        normalization: `|sum_m / (${dm}) - sum_n / (${dn})| / maxInt`
+      };
+    });
   }
 
   // Polansky, 1996, pg. 321 - 322
-  ULMRelativeScaling({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  ULMRelativeScaling<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     let mMaxint = 0;
@@ -630,24 +1299,39 @@ class MorphologicalMetric {
       mMaxint = Math.max(mMaxint, out);
       return out
     });
-    const mSum = mDeltas.reduce((a, b) => a + b, 0);
-    const mNormed = mSum / (mDeltas.length * mMaxint);
+    const mNormed = meanDelta(m, mDeltas) / mMaxint;
     let nMaxint = 0;
     const nDeltas = n.data.slice(1).map((x, i) => {
       const out = delta(n.data[i], x);
       nMaxint = Math.max(nMaxint, out);
       return out
     });
-    const nSum = nDeltas.reduce((a, b) => a + b, 0);
-    const nNormed = nSum / (nDeltas.length * nMaxint);
-    return Math.abs(mNormed - nNormed);
+    const nNormed = meanDelta(n, nDeltas) / nMaxint;
+    return traced(verbose, Math.abs(mNormed - nNormed), () => {
+      const [[dm, mTotal], [dn, nTotal]] = unorderedDenominators(m, n);
+      return {
+        intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+        deltas: { m: mDeltas, n: nDeltas },
+        psi: [Math.abs(mNormed - nNormed)],
+        scaling: {
+          [dm]: mTotal,
+          [dn]: nTotal,
+          mMaxInt: mMaxint,
+          nMaxInt: nMaxint
+        },
+        normalization:
+          `|sum_m / ((${dm}) * mMaxInt) - sum_n / ((${dn}) * nMaxInt)|`
+      };
+    });
   }
 
   // Polansky, 1996, pg. 322
-  OLMRelativeScaling({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  OLMRelativeScaling<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     let mMaxInt = 0;
@@ -665,23 +1349,34 @@ class MorphologicalMetric {
     });
     const normedNDeltas = nDeltas.map(nDelta => nDelta / nMaxInt);
     const diffs = normedMDeltas.map((mDelta, i) => Math.abs(mDelta - normedNDeltas[i]));
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    return sum / mDeltas.length;
+    const w = orderedWeights(m, n);
+    const sum = weightedSum(diffs, w.weights);
+    const denom = w.weighted ? 'sum of weights' : '(L - 1)';
+    return traced(verbose, sum / w.total, () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: normedMDeltas, n: normedNDeltas },
+      psi: diffs,
+      sum,
+      scaling: { ...orderedScaling(w, 'L - 1'), mMaxInt, nMaxInt },
+      normalization: `sum of |m_i / mMaxInt - n_i / nMaxInt| / ${denom}`
+    }));
   }
 
-  OLM({
+  OLM<V extends boolean = false>({
     scaling = 'none',
-    delta = (a: number, b: number) => Math.abs(a - b),
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
     scaling?: 'none' | 'absolute' | 'relative',
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     if (scaling === 'none') {
-      return this.OLMCanonical({ delta });
+      return this.OLMCanonical({ delta, verbose });
     } else if (scaling === 'relative') {
-      return this.OLMRelativeScaling({ delta });
+      return this.OLMRelativeScaling({ delta, verbose });
     } else if (scaling === 'absolute') {
-      return this.OLMScaled({ delta });
+      return this.OLMScaled({ delta, verbose });
     }
   }
 
@@ -690,17 +1385,24 @@ class MorphologicalMetric {
   // Ordered combinatorial magnitude metric
   // the squared form, at least as written out in the paper, is the exact same
   // as the absolute scaled ... not sure if this is a typo or what
-  OCM({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  OCM<V extends boolean = false>({
+    delta = this.defaultDelta,
     scaling = 'none',
-    
+    maxDistance = undefined,
+    distanceWeights = undefined,
+    verbose = false as V
   }: {
     delta?: (a: number, b: number) => number,
     scaling?: 'none' | 'absolute' | 'relative',
+    maxDistance?: number,
+    distanceWeights?: number[],
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
-    const mInts = m.generateIntervals({ form: 'combinatorial interval' });
-    const nInts = n.generateIntervals({ form: 'combinatorial interval' });
+    const mComb = partialCombinatorialIntervals(m, maxDistance, distanceWeights);
+    const nComb = partialCombinatorialIntervals(n, maxDistance, distanceWeights);
+    const [mInts, nInts] = [mComb.intervals, nComb.intervals];
+    const w = jointCombinatorialWeights(m, n, mComb, nComb);
     let maxInt = 0, mMaxInt = 0, nMaxInt = 0;
     const mDeltas = mInts.map(mInt => {
       const out = delta(mInt[0], mInt[1]);
@@ -732,29 +1434,55 @@ class MorphologicalMetric {
 
       return Math.abs(mDelt - nDelt);
     });
-    const sum = diffs.reduce((a, b) => a + b, 0);
-    const out = sum / Lm(m.data.length);
-    if (scaling === 'absolute') {
-      return out / maxInt;
-    } else {
-      return out
-    }
+    const sum = weightedSum(diffs, w.weights);
+    const out = sum / w.total;
+    const value = scaling === 'absolute' ? out / maxInt : out;
+    return traced(verbose, value, () => {
+      const scalingVals = combinatorialScaling(w);
+      if (scaling === 'absolute') {
+        scalingVals.maxInt = maxInt;
+      } else if (scaling === 'relative') {
+        scalingVals.mMaxInt = mMaxInt;
+        scalingVals.nMaxInt = nMaxInt;
+      }
+      const denom = w.weighted ? 'sum of weights' : 'Lm';
+      return {
+        intervals: { m: mInts, n: nInts },
+        deltas: { m: mDeltas, n: nDeltas },
+        psi: diffs,
+        sum,
+        scaling: scalingVals,
+        normalization: {
+          none: `sum / ${denom}`,
+          absolute: `sum / (${denom} * maxInt)`,
+          relative: `sum of |m_i / mMaxInt - n_i / nMaxInt| / ${denom}`
+        }[scaling],
+        degreeOfCombinatoriality: { m: mComb.degree, n: nComb.degree }
+      };
+    });
   }
 
 
   // Polansky, 1996, pg. 325
-  UCM({ 
-    delta = (a: number, b: number) => Math.abs(a - b),
+  UCM<V extends boolean = false>({ 
+    delta = this.defaultDelta,
     scaling = 'none',
+    maxDistance = undefined,
+    distanceWeights = undefined,
+    verbose = false as V
   }: {
     delta?: (a: number, b: number) => number,
     scaling?: 'none' | 'absolute' | 'relative',
+    maxDistance?: number,
+    distanceWeights?: number[],
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
-    const mInts = m.generateIntervals({ form: 'combinatorial interval' });
-    const nInts = n.generateIntervals({ form: 'combinatorial interval' });
+    const mComb = partialCombinatorialIntervals(m, maxDistance, distanceWeights);
+    const nComb = partialCombinatorialIntervals(n, maxDistance, distanceWeights);
+    const [mInts, nInts] = [mComb.intervals, nComb.intervals];
     let maxInt = 0, mMaxInt = 0, nMaxInt = 0;
-    let mSum = mInts.map(mInt => {
+    const mDeltas = mInts.map(mInt => {
       const out = delta(mInt[0], mInt[1]);
       if (scaling === 'absolute') {
         maxInt = Math.max(maxInt, out);
@@ -762,8 +1490,9 @@ class MorphologicalMetric {
         mMaxInt = Math.max(mMaxInt, out);
       }
       return out
-    }).reduce((a, b) => a + b, 0);
-    let nSum = nInts.map(nInt => {
+    });
+    let mSum = mDeltas.reduce((a, b, i) => a + b * mComb.weights[i], 0);
+    const nDeltas = nInts.map(nInt => {
       const out = delta(nInt[0], nInt[1]);
       if (scaling === 'absolute') {
         maxInt = Math.max(maxInt, out);
@@ -771,51 +1500,97 @@ class MorphologicalMetric {
         nMaxInt = Math.max(nMaxInt, out);
       }
       return out
-    }).reduce((a, b) => a + b, 0);
+    });
+    let nSum = nDeltas.reduce((a, b, i) => a + b * nComb.weights[i], 0);
     if (scaling === 'relative') {
       mSum /= mMaxInt;
       nSum /= nMaxInt;
     }
-    const out = Math.abs(mSum / mInts.length - nSum / nInts.length);
-    if (scaling === 'absolute') {
-      return out / maxInt;
-    } else {
-      return out
-    }
+    const out = Math.abs(mSum / mComb.totalWeight - nSum / nComb.totalWeight);
+    const value = scaling === 'absolute' ? out / maxInt : out;
+    return traced(verbose, value, () => {
+      const weighted = mComb.partial || mComb.weighted || nComb.weighted;
+      const scalingVals: Record<string, number> = weighted ? {
+        'sum of weights_m': mComb.totalWeight,
+        'sum of weights_n': nComb.totalWeight
+      } : {
+        Lm_m: mInts.length,
+        Lm_n: nInts.length
+      };
+      if (scaling === 'absolute') {
+        scalingVals.maxInt = maxInt;
+      } else if (scaling === 'relative') {
+        scalingVals.mMaxInt = mMaxInt;
+        scalingVals.nMaxInt = nMaxInt;
+      }
+      const [dm, dn] = weighted ?
+        ['sum of weights_m', 'sum of weights_n'] :
+        ['Lm_m', 'Lm_n'];
+      return {
+        intervals: { m: mInts, n: nInts },
+        deltas: { m: mDeltas, n: nDeltas },
+        psi: [out],
+        scaling: scalingVals,
+        normalization: {
+          none: `|sum_m / ${dm} - sum_n / ${dn}|`,
+          absolute: `|sum_m / ${dm} - sum_n / ${dn}| / maxInt`,
+          relative:
+            `|sum_m / (${dm} * mMaxInt) - sum_n / (${dn} * nMaxInt)|`
+        }[scaling],
+        degreeOfCombinatoriality: { m: mComb.degree, n: nComb.degree }
+      };
+    });
   }
 
   // Polansky, 1996, pg. 327
-  maxULM({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  maxULM<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mDeltas = m.data.slice(1).map((x, i) => delta(m.data[i], x));
     const mMax = Math.max(...mDeltas);
     const nDeltas = n.data.slice(1).map((x, i) => delta(n.data[i], x));
     const nMax = Math.max(...nDeltas);
-    return Math.abs(mMax - nMax);
+    return traced(verbose, Math.abs(mMax - nMax), () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: [Math.abs(mMax - nMax)],
+      scaling: { mMaxInt: mMax, nMaxInt: nMax },
+      normalization: '|mMaxInt - nMaxInt|'
+    }));
   }
 
   // Polansky, 1996, pg. 327
-  maxOLM({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  maxOLM<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mDeltas = m.data.slice(1).map((x, i) => delta(m.data[i], x));
     const nDeltas = n.data.slice(1).map((x, i) => delta(n.data[i], x));
     const diffs = mDeltas.map((mDelta, i) => Math.abs(mDelta - nDeltas[i]));
-    return Math.max(...diffs);
+    return traced(verbose, Math.max(...diffs), () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: diffs,
+      normalization: 'max(psi)'
+    }));
   }
 
   // Polansky, 1996, pg. 328
-  maxOCM({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  maxOCM<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mInts = m.generateIntervals({ form: 'combinatorial interval' });
@@ -823,15 +1598,22 @@ class MorphologicalMetric {
     const mDeltas = mInts.map(mInt => delta(mInt[0], mInt[1]));
     const nDeltas = nInts.map(nInt => delta(nInt[0], nInt[1]));
     const diffs = mDeltas.map((mDelta, i) => Math.abs(mDelta - nDeltas[i]));
-    return Math.max(...diffs);
+    return traced(verbose, Math.max(...diffs), () => ({
+      intervals: { m: mInts, n: nInts },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: diffs,
+      normalization: 'max(psi)'
+    }));
   }
 
 
   // Polansky, 1996, pg. 328
-  maxUCM({
-    delta = (a: number, b: number) => Math.abs(a - b),
+  maxUCM<V extends boolean = false>({
+    delta = this.defaultDelta,
+    verbose = false as V
   }: {
-    delta?: (a: number, b: number) => number
+    delta?: (a: number, b: number) => number,
+    verbose?: V
   } = {}) {
     const [m, n] = this.morphs;
     const mInts = m.generateIntervals({ form: 'combinatorial interval' });
@@ -840,17 +1622,174 @@ class MorphologicalMetric {
     const nInts = n.generateIntervals({ form: 'combinatorial interval' });
     const nDeltas = nInts.map(nInt => delta(nInt[0], nInt[1]));
     const maxN = Math.max(...nDeltas);
-    return Math.abs(maxM - maxN);
+    return traced(verbose, Math.abs(maxM - maxN), () => ({
+      intervals: { m: mInts, n: nInts },
+      deltas: { m: mDeltas, n: nDeltas },
+      psi: [Math.abs(maxM - maxN)],
+      scaling: { mMaxInt: maxM, nMaxInt: maxN },
+      normalization: '|mMaxInt - nMaxInt|'
+    }));
   }
 
-  sigmaULM() {
+  sigmaULM<V extends boolean = false>({
+    verbose = false as V
+  }: {
+    verbose?: V
+  } = {}) {
     const [m, n] = this.morphs;
-    return Math.abs(m.intervalVariance() ** 0.5 - n.intervalVariance() ** 0.5);
+    const mSigma = m.intervalVariance() ** 0.5;
+    const nSigma = n.intervalVariance() ** 0.5;
+    return traced(verbose, Math.abs(mSigma - nSigma), () => ({
+      intervals: { m: m.generateIntervals(), n: n.generateIntervals() },
+      deltas: { m: m.derivate(1, true), n: n.derivate(1, true) },
+      psi: [Math.abs(mSigma - nSigma)],
+      scaling: { mSigma, nSigma },
+      normalization: '|sqrt(intervalVariance_m) - sqrt(intervalVariance_n)|'
+    }));
 
   }
 }
 
 
+// Applies 1-d metrics to each dimension of a pair of multidimensional morphs,
+// and combines the per-dimension values into a single distance, either as a 
+// (weighted) city block or euclidean mean.
+class MultidimensionalMetric {
+  morphs: [MultidimensionalMorph, MultidimensionalMorph];
+  ordered: boolean;
+  metrics: MorphologicalMetric[];
+
+  constructor(
+    morphs: [MultidimensionalMorph, MultidimensionalMorph], 
+    ordered: boolean = true
+  ) {
+    const [m, n] = morphs;
+    if (m.dimensions !== n.dimensions) {
+      throw new Error('Morphs must have the same number of dimensions');
+    }
+    this.morphs = morphs;
+    this.ordered = ordered;
+    this.metrics = m.morphs.map((mDim, d) => {
+      return new MorphologicalMetric([mDim, n.dimension(d)], ordered);
+    });
+  }
+
+  combine(values: number[], {
+    combination = 'city block',
+    weights = undefined
+  }: {
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    if (weights === undefined) {
+      weights = Array(values.length).fill(1) as number[];
+    } else if (weights.length !== values.length) {
+      throw new Error('Weights must be the same length as the number of dimensions');
+    }
+    const summedWeights = weights.reduce((a, b) => a + b, 0);
+    if (combination === 'city block') {
+      const sum = values.reduce((a, v, i) => a + weights![i] * Math.abs(v), 0);
+      return sum / summedWeights;
+    } else {
+      const sum = values.reduce((a, v, i) => a + weights![i] * v ** 2, 0);
+      return (sum / summedWeights) ** 0.5;
+    }
+  }
+
+  // runs any 1-d metric on each dimension
+  compute(metric: (mm: MorphologicalMetric) => number, {
+    combination = 'city block',
+    weights = undefined
+  }: {
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    const perDimension = this.metrics.map(mm => metric(mm));
+    return {
+      perDimension,
+      value: this.combine(perDimension, { combination, weights })
+    }
+  }
+
+  OLM({
+    scaling = 'none',
+    delta = (a: number, b: number) => Math.abs(a - b),
+    combination = 'city block',
+    weights = undefined
+  }: {
+    scaling?: 'none' | 'absolute' | 'relative',
+    delta?: (a: number, b: number) => number,
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    return this.compute(mm => mm.OLM({ scaling, delta }) as number, {
+      combination, 
+      weights
+    });
+  }
+
+  ULM({
+    scaling = 'none',
+    delta = (a: number, b: number) => Math.abs(a - b),
+    combination = 'city block',
+    weights = undefined
+  }: {
+    scaling?: 'none' | 'absolute' | 'relative',
+    delta?: (a: number, b: number) => number,
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    return this.compute(mm => mm.ULM({ scaling, delta }) as number, {
+      combination,
+      weights
+    });
+  }
+
+  OCM({
+    scaling = 'none',
+    delta = (a: number, b: number) => Math.abs(a - b),
+    maxDistance = undefined,
+    distanceWeights = undefined,
+    combination = 'city block',
+    weights = undefined
+  }: {
+    scaling?: 'none' | 'absolute' | 'relative',
+    delta?: (a: number, b: number) => number,
+    maxDistance?: number,
+    distanceWeights?: number[],
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    const opts = { scaling, delta, maxDistance, distanceWeights };
+    return this.compute(mm => mm.OCM(opts), {
+      combination,
+      weights
+    });
+  }
+
+  UCM({
+    scaling = 'none',
+    delta = (a: number, b: number) => Math.abs(a - b),
+    maxDistance = undefined,
+    distanceWeights = undefined,
+    combination = 'city block',
+    weights = undefined
+  }: {
+    scaling?: 'none' | 'absolute' | 'relative',
+    delta?: (a: number, b: number) => number,
+    maxDistance?: number,
+    distanceWeights?: number[],
+    combination?: DimensionCombination,
+    weights?: number[]
+  } = {}) {
+    const opts = { scaling, delta, maxDistance, distanceWeights };
+    return this.compute(mm => mm.UCM(opts), {
+      combination,
+      weights
+    });
+  }
+}
+
 // Polansky, 1996, pg. 326
 // correlation coefficient
 // not a metric, since it ranges from -1 to 1
@@ -870,9 +1809,36 @@ const cc = (x: number[], y: number[]) => {
 
 }
 
+// Delta functions for cyclic spaces of any modulus (pitch classes in any
+// equal temperament, positions in a rhythmic cycle). Intervals are taken along
+// the shortest path; halfway round an even cycle counts as upwards.
+const modularDelta = (modulus: number) => {
+  if (!(modulus > 0)) {
+    throw new Error('Modulus must be greater than 0');
+  }
+  // from a to b, in (-modulus / 2, modulus / 2]
+  const signedInterval = (a: number, b: number): number => {
+    const up = mod(b - a, modulus);
+    return up > modulus / 2 ? up - modulus : up;
+  };
+  return {
+    modulus,
+    signedInterval,
+    // interval class: the unsigned shortest distance
+    interval: (a: number, b: number): number => {
+      return Math.abs(signedInterval(a, b));
+    },
+    // as delta.sgn, along the shortest path
+    sgn: (a: number, b: number): -1 | 0 | 1 => {
+      const int = signedInterval(a, b);
+      return int > 0 ? -1 : int === 0 ? 0 : 1;
+    }
+  };
+}
+
 const delta = {
   intervalClass: (a: number, b: number): number => {
-    return Math.min(mod(a - b, 12), mod(b - a, 12));
+    return modularDelta(12).interval(a, b);
   },
   absoluteValue: (a: number, b: number): number => {
     return Math.abs(a - b);
@@ -902,7 +1868,17 @@ const delta = {
 
 
 
-export { Morph, MorphologicalMetric, delta, cc }
+export {
+  Morph,
+  MorphologicalMetric,
+  MultidimensionalMorph,
+  MultidimensionalMetric,
+  delta,
+  modularDelta,
+  cc
+}
+
+export type { MetricTrace }
 
 // not implemented
 // maxint squared form (pg. 322 - 323)
@@ -0,0 +1,97 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { 
+  mutate, 
+  mutateToDistance, 
+  uniformMutation, 
+  irregularMutation, 
+  linearContourMutation 
+} from './mutations';
+
+// small deterministic sequence so the random forms are repeatable
+const sequence = (vals: number[]) => {
+  let i = 0;
+  return () => vals[i++ % vals.length];
+}
+
+describe('Mutations', () => {
+  const source = new Morph([0, 2, 5, 4, 1]);
+  const target = new Morph([4, 5, 4, 3, 7]);
+
+  test('Uniform mutation endpoints and midpoint', () => {
+    expect(uniformMutation(source, target, 0).data).toEqual(source.data);
+    expect(uniformMutation(source, target, 1).data).toEqual(target.data);
+    const mid = uniformMutation(source, target, 0.5);
+    expect(mid.data).toEqual([2, 3.5, 4.5, 3.5, 4]);
+  })
+
+  test('Irregular mutation takes a subset of target intervals', () => {
+    const full = irregularMutation(source, target, 1, Math.random);
+    expect(full.derivate(1)).toEqual(target.derivate(1));
+    expect(full.data[0]).toEqual(source.data[0]);
+    const half = irregularMutation(source, target, 0.5, sequence([0]));
+    // with random() always 0, the first two intervals are mutated
+    expect(half.derivate(1)).toEqual([1, -1, -1, -3]);
+  })
+
+  test('Linear contour mutation keeps source magnitudes', () => {
+    const full = linearContourMutation(source, target, 1);
+    expect(full.firstOrderAbsoluteInterval).toEqual(
+      source.firstOrderAbsoluteInterval
+    );
+    expect(full.directionInterval).toEqual([-1, 1, 1, -1]);
+    expect(linearContourMutation(source, target, 0).data).toEqual(source.data);
+  })
+
+  test('mutate dispatches on form', () => {
+    expect(mutate(source, target, 1, { form: 'uniform' }).data)
+      .toEqual(target.data);
+    expect(() => mutate(source, target, 1.5)).toThrow();
+    expect(() => mutate(source, new Morph([1, 2]), 0.5)).toThrow();
+  })
+
+  test('Mutations stay in a modular space', () => {
+    const weights = [1, 2, 1, 2, 1];
+    const a = new Morph([0, 18, 3, 7, 12], { modulus: 19, weights });
+    const b = new Morph([1, 2, 17, 9, 14], { modulus: 19 });
+    const full = uniformMutation(a, b, 1);
+    expect(full.modulus).toEqual(19);
+    expect(full.weights).toEqual(weights);
+    const mm = new MorphologicalMetric([full, b]);
+    expect(mm.OLD()).toEqual(0);
+    expect(mm.OCD()).toEqual(0);
+    expect(full.derivate(1)).toEqual(b.derivate(1));
+    // 0 -> 18 is one step down; halfway to 1 -> 2 (one step up) is no step
+    expect(uniformMutation(a, b, 0.5).derivate(1)[0]).toEqual(0);
+    const irregular = irregularMutation(a, b, 1, Math.random);
+    expect(irregular.derivate(1)).toEqual(b.derivate(1));
+    expect(linearContourMutation(a, b, 1).directionInterval)
+      .toEqual(b.directionInterval);
+    expect(() => mutate(a, new Morph(b.data), 0.5))
+      .toThrow('same modulus');
+  })
+
+  test('Mutate to a target OLM distance', () => {
+    const res = mutateToDistance(source, target, { 
+      distance: 0.5, 
+      tolerance: 0.001 
+    });
+    const mm = new MorphologicalMetric([source, res.morph]);
+    expect(Math.abs(mm.OLMCanonical() - 0.5)).toBeLessThanOrEqual(0.001);
+    expect(res.index).toBeGreaterThan(0);
+    expect(res.index).toBeLessThan(1);
+  })
+
+  test('Mutate to a target OLD distance', () => {
+    const res = mutateToDistance(source, target, {
+      distance: 0.5,
+      metric: 'OLD',
+      form: 'linear contour',
+      tolerance: 0
+    });
+    expect(new MorphologicalMetric([source, res.morph]).OLD()).toEqual(0.5);
+    expect(() => mutateToDistance(source, target, {
+      distance: 10,
+      maxIterations: 10
+    })).toThrow();
+  })
+})
@@ -0,0 +1,184 @@
+import { Morph, MorphologicalMetric, delta } from './morphs';
+
+// Morphological mutation functions, after Polansky & McKinney, "Morphological
+// Mutation Functions" (ICMC, 1991). A mutation index of 0 returns the source, 1
+// returns (something with the intervals of) the target.
+
+type MutationForm = 'uniform' | 'irregular' | 'linear contour';
+
+type MutationOptions = {
+  form?: MutationForm,
+  random?: () => number
+};
+
+const checkMutationArgs = (source: Morph, target: Morph, index: number) => {
+  if (source.data.length !== target.data.length) {
+    throw new Error('Source and target must have the same number of points');
+  }
+  if (source.modulus !== target.modulus) {
+    throw new Error('Source and target must have the same modulus');
+  }
+  if (index < 0 || index > 1) {
+    throw new Error('Mutation index must be between 0 and 1');
+  }
+}
+
+// rebuilds a morph from a starting value and a list of signed intervals, in
+// the source's space: with a modulus, each interval is first reduced to the
+// shortest path around the cycle. The source's weights are kept.
+const integrate = (source: Morph, start: number, intervals: number[]) => {
+  const out = [start];
+  intervals.forEach(int => {
+    out.push(out[out.length - 1] + source.interval(0, int));
+  });
+  return new Morph(out, { modulus: source.modulus, weights: source.weights });
+}
+
+// picks `count` distinct indices out of `length`, via a partial Fisher-Yates
+const randomSubset = (length: number, count: number, random: () => number) => {
+  const idxs = [...Array(length)].map((_, i) => i);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (length - i));
+    [idxs[i], idxs[j]] = [idxs[j], idxs[i]];
+  }
+  return new Set(idxs.slice(0, count));
+}
+
+// Uniform mutation: every interval moves the same proportion of the way from
+// the source interval to the target interval.
+const uniformMutation = (source: Morph, target: Morph, index: number) => {
+  checkMutationArgs(source, target, index);
+  const sInts = source.derivate(1);
+  const tInts = target.derivate(1);
+  const [s0, t0] = [source.data[0], target.data[0]];
+  const start = s0 + index * source.interval(s0, t0);
+  const ints = sInts.map((sInt, i) => {
+    return sInt + index * source.interval(sInt, tInts[i]);
+  });
+  return integrate(source, start, ints);
+}
+
+// Irregular mutation: a random subset of round(index * (L - 1)) intervals is
+// taken from the target, the rest are kept from the source.
+const irregularMutation = (
+  source: Morph,
+  target: Morph,
+  index: number,
+  random: () => number = Math.random
+) => {
+  checkMutationArgs(source, target, index);
+  const sInts = source.derivate(1);
+  const tInts = target.derivate(1);
+  const count = Math.round(index * sInts.length);
+  const mutated = randomSubset(sInts.length, count, random);
+  const ints = sInts.map((sInt, i) => mutated.has(i) ? tInts[i] : sInt);
+  return integrate(source, source.data[0], ints);
+}
+
+// Linear contour mutation: the source's interval magnitudes are kept, but a
+// random subset of round(index * (L - 1)) intervals take on the direction of
+// the corresponding target interval.
+const linearContourMutation = (
+  source: Morph,
+  target: Morph,
+  index: number,
+  random: () => number = Math.random
+) => {
+  checkMutationArgs(source, target, index);
+  const sInts = source.derivate(1);
+  const tDirs = target.directionInterval;
+  const count = Math.round(index * sInts.length);
+  const mutated = randomSubset(sInts.length, count, random);
+  const ints = sInts.map((sInt, i) => {
+    if (!mutated.has(i)) return sInt;
+    // directionInterval is 1 for a descending interval, -1 for ascending
+    return -tDirs[i] * Math.abs(sInt);
+  });
+  return integrate(source, source.data[0], ints);
+}
+
+const mutate = (
+  source: Morph,
+  target: Morph,
+  index: number,
+  {
+    form = 'uniform',
+    random = Math.random
+  }: MutationOptions = {}
+) => {
+  if (form === 'uniform') {
+    return uniformMutation(source, target, index);
+  } else if (form === 'irregular') {
+    return irregularMutation(source, target, index, random);
+  } else if (form === 'linear contour') {
+    return linearContourMutation(source, target, index, random);
+  } else {
+    throw new Error(`Unknown mutation form: ${form}`);
+  }
+}
+
+// Searches for a mutation index whose mutant lies a given OLM or OLD distance
+// from the source, by bisection on the mutation index. For the random forms,
+// each step draws a fresh mutant, so the search may need several iterations.
+const mutateToDistance = (
+  source: Morph,
+  target: Morph,
+  {
+    distance,
+    metric = 'OLM',
+    scaling = 'none',
+    delta: deltaFn = delta.absoluteValue,
+    tolerance = 0.01,
+    maxIterations = 100,
+    form = 'uniform',
+    random = Math.random
+  }: MutationOptions & {
+    distance: number,
+    metric?: 'OLM' | 'OLD',
+    scaling?: 'none' | 'absolute' | 'relative',
+    delta?: (a: number, b: number) => number,
+    tolerance?: number,
+    maxIterations?: number
+  }
+) => {
+  const measure = (mutant: Morph) => {
+    const mm = new MorphologicalMetric([source, mutant]);
+    if (metric === 'OLM') {
+      return mm.OLM({ scaling, delta: deltaFn }) as number;
+    } else {
+      return mm.OLD() as number;
+    }
+  };
+  let lo = 0, hi = 1;
+  let best: { morph: Morph, index: number, distance: number } | undefined;
+  for (let i = 0; i < maxIterations; i++) {
+    const index = i === 0 ? 1 : (lo + hi) / 2;
+    const morph = mutate(source, target, index, { form, random });
+    const dist = measure(morph);
+    if (!best || Math.abs(dist - distance) < Math.abs(best.distance - distance)) {
+      best = { morph, index, distance: dist };
+    }
+    if (Math.abs(dist - distance) <= tolerance) {
+      return best;
+    }
+    if (i === 0) continue;
+    if (dist < distance) {
+      lo = index;
+    } else {
+      hi = index;
+    }
+  }
+  throw new Error(
+    `No mutant within tolerance of ${distance} (closest: ${best!.distance})`
+  );
+}
+
+export {
+  mutate,
+  mutateToDistance,
+  uniformMutation,
+  irregularMutation,
+  linearContourMutation
+}
+
+export type { MutationForm }
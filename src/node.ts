@@ -0,0 +1,20 @@
+import { readFileSync } from 'fs';
+import { parseMidi } from './midi';
+import { parseWav } from './audio';
+
+// Node-only helpers, published as the `morphological-metrics/node` entry so
+// that the main entry stays free of Node built-ins (for browsers and
+// bundlers): file readers for the binary parsers, and worker-thread
+// computation.
+
+const readMidiFile = (path: string) => {
+  return parseMidi(new Uint8Array(readFileSync(path)));
+}
+
+const readWavFile = (path: string) => {
+  return parseWav(new Uint8Array(readFileSync(path)));
+}
+
+export { readMidiFile, readWavFile }
+
+export * from './parallel';
@@ -0,0 +1,143 @@
+import { 
+  noteNameToMidi, 
+  parseNoteNames, 
+  parseMusicXML, 
+  eventsToMorph 
+} from './notation';
+
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list>
+    <score-part id="P1"><part-name>Flute</part-name></score-part>
+    <score-part id="P2"><part-name>Bass</part-name></score-part>
+  </part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>2</divisions></attributes>
+      <note><pitch><step>C</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><pitch><step>E</step><alter>-1</alter><octave>4</octave></pitch><duration>1</duration><voice>1</voice></note>
+      <note><rest/><duration>1</duration><voice>1</voice></note>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>4</duration><voice>1</voice><tie type="start"/></note>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><tie type="stop"/></note>
+      <note><grace/><pitch><step>A</step><octave>4</octave></pitch><voice>1</voice></note>
+      <note><pitch><step>B</step><octave>3</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><chord/><pitch><step>D</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice></note>
+    </measure>
+  </part>
+  <part id="P2">
+    <measure number="1">
+      <attributes><divisions>1</divisions></attributes>
+      <note><pitch><step>C</step><octave>2</octave></pitch><duration>4</duration></note>
+      <note><pitch><step>F</step><alter>1</alter><octave>2</octave></pitch><duration>4</duration></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+// two voices in one part, each measure giving voice 1 and then, after a
+// <backup>, voice 2
+const twoVoices = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list>
+    <score-part id="P1"><part-name>Piano</part-name></score-part>
+  </part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions></attributes>
+      <note><pitch><step>E</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><pitch><step>D</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <backup><duration>4</duration></backup>
+      <forward><duration>1</duration><voice>2</voice></forward>
+      <note><pitch><step>G</step><octave>3</octave></pitch><duration>1</duration><voice>2</voice></note>
+      <note><pitch><step>A</step><octave>3</octave></pitch><duration>2</duration><voice>2</voice></note>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>4</duration><voice>1</voice></note>
+      <backup><duration>4</duration></backup>
+      <note><pitch><step>F</step><octave>3</octave></pitch><duration>4</duration><voice>2</voice></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+describe('Note names', () => {
+  test('Note name to MIDI', () => {
+    expect(noteNameToMidi('C4')).toEqual(60);
+    expect(noteNameToMidi('Eb4')).toEqual(63);
+    expect(noteNameToMidi('F#3')).toEqual(54);
+    expect(noteNameToMidi('Bb')).toEqual(70);
+    expect(noteNameToMidi('cx-1')).toEqual(2);
+    expect(noteNameToMidi('A', 3)).toEqual(57);
+    expect(() => noteNameToMidi('H4')).toThrow();
+  })
+
+  test('Parses note name strings', () => {
+    const events = parseNoteNames('C4 D4:0.5 r\nEb4~ Eb4:2 G4');
+    expect(events.map(e => e.pitch)).toEqual([60, 62, undefined, 63, 63, 67]);
+    expect(events.map(e => e.duration)).toEqual([1, 0.5, 1, 1, 2, 1]);
+    expect(events[3].tieStart).toEqual(true);
+    expect(events[4].tieStop).toEqual(true);
+    expect(events[3].position).toEqual({ index: 3, offset: 12, line: 2, column: 1 });
+    expect(() => parseNoteNames('C4:0')).toThrow();
+  })
+
+  test('Rests and ties', () => {
+    const events = parseNoteNames('C4 D4:0.5 r Eb4~ Eb4:2 G4');
+    const skip = eventsToMorph(events);
+    expect(skip.morph.data).toEqual([60, 62, 63, 67]);
+    expect(skip.positions.map(p => p.index)).toEqual([0, 1, 3, 5]);
+    const durs = eventsToMorph(events, { feature: 'duration', rests: 'merge' });
+    expect(durs.morph.data).toEqual([1, 1.5, 3, 1]);
+    const repeat = eventsToMorph(events, { rests: 'repeat', ties: 'separate' });
+    expect(repeat.morph.data).toEqual([60, 62, 62, 63, 63, 67]);
+    const pcs = eventsToMorph(events, { feature: 'pitch class' });
+    expect(pcs.morph.data).toEqual([0, 2, 3, 7]);
+    expect(pcs.morph.modulus).toEqual(12);
+    expect(skip.morph.modulus).toBeUndefined();
+    expect(() => eventsToMorph(parseNoteNames('C4 r'))).toThrow();
+  })
+})
+
+describe('MusicXML', () => {
+  test('Parses notes of the first part', () => {
+    const events = parseMusicXML(xml);
+    expect(events.map(e => e.pitch)).toEqual([60, 63, undefined, 67, 67, 74]);
+    expect(events.map(e => e.duration)).toEqual([1, 0.5, 0.5, 2, 1, 1]);
+    expect(events[4].tieStop).toEqual(true);
+    expect(events[4].position.measure).toEqual('2');
+    expect(events[4].position.part).toEqual('P1');
+    expect(events[0].position.line).toEqual(10);
+    expect(xml.slice(events[0].position.offset).startsWith('<note>')).toBe(true);
+  })
+
+  test('Chords, parts and voices', () => {
+    const lowest = parseMusicXML(xml, { chord: 'lowest' });
+    expect(lowest[5].pitch).toEqual(59);
+    const bass = parseMusicXML(xml, { part: 'P2' });
+    expect(bass.map(e => e.pitch)).toEqual([36, 42]);
+    expect(bass.map(e => e.duration)).toEqual([4, 4]);
+    expect(parseMusicXML(xml, { voice: '2' })).toEqual([]);
+    expect(() => parseMusicXML(xml, { part: 'P9' })).toThrow();
+  })
+
+  test('Reads one voice across <backup> and <forward>', () => {
+    const upper = parseMusicXML(twoVoices);
+    expect(upper.map(e => e.pitch)).toEqual([76, 74, 72]);
+    expect(upper.map(e => e.duration)).toEqual([2, 2, 4]);
+    const lower = parseMusicXML(twoVoices, { voice: '2' });
+    expect(lower.map(e => e.pitch)).toEqual([undefined, 55, 57, 53]);
+    expect(lower.map(e => e.duration)).toEqual([1, 1, 2, 4]);
+    expect(lower[0].rest).toBe(true);
+    expect(lower.map(e => e.position.measure)).toEqual(['1', '1', '1', '2']);
+    const { morph } = eventsToMorph(lower, { rests: 'merge' });
+    expect(morph.data).toEqual([55, 57, 53]);
+  })
+
+  test('MusicXML to Morph', () => {
+    const { morph, positions } = eventsToMorph(parseMusicXML(xml));
+    expect(morph.data).toEqual([60, 63, 67, 74]);
+    expect(positions.map(p => p.measure)).toEqual(['1', '1', '1', '2']);
+    const durs = eventsToMorph(parseMusicXML(xml), { feature: 'duration' });
+    expect(durs.morph.data).toEqual([1, 0.5, 3, 1]);
+  })
+})
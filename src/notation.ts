@@ -0,0 +1,302 @@
+import { Morph } from './morphs';
+import { ChordReduction } from './midi';
+
+// Score input: uncompressed MusicXML and a lightweight note-name text format
+// (e.g. "C4 D4 Eb4:2 r G4~ G4"), both read into a list of note events and then
+// into Morphs of MIDI pitch, pitch class or duration.
+
+type SourcePosition = {
+  index: number, // index of the note (or <forward>) / token in the source
+  offset: number, // character offset into the source text
+  line: number, // 1-based
+  column: number, // 1-based
+  measure?: string, // MusicXML measure number
+  part?: string // MusicXML part id
+};
+
+type NoteEvent = {
+  pitch?: number, // MIDI note number; undefined for rests
+  duration: number, // in quarter notes
+  rest: boolean,
+  tieStart: boolean,
+  tieStop: boolean,
+  position: SourcePosition
+};
+
+type NotationFeature = 'pitch' | 'pitch class' | 'duration';
+
+// 'skip' drops rests, 'merge' adds their duration to the preceding note, and
+// 'repeat' turns each rest into a point that repeats the preceding pitch
+type RestHandling = 'skip' | 'merge' | 'repeat';
+
+const stepClasses: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11
+};
+
+// Finds the line and column of offsets into a text. The start of each line is
+// found once, so that looking up every note stays linear in the text length.
+const lineLocator = (text: string) => {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return (offset: number) => {
+    // the last line starting at or before offset
+    let lo = 0, hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - starts[lo] + 1 };
+  };
+}
+
+// C4 = 60
+const noteNameToMidi = (name: string, defaultOctave: number = 4) => {
+  const match = /^([A-Ga-g])((?:#|b|x|n)*)(-?\d+)?$/.exec(name);
+  if (!match) {
+    throw new Error(`Invalid note name: ${name}`);
+  }
+  const [, step, accidentals, octave] = match;
+  let alter = 0;
+  for (const acc of accidentals) {
+    if (acc === '#') alter += 1;
+    else if (acc === 'b') alter -= 1;
+    else if (acc === 'x') alter += 2;
+  }
+  const oct = octave === undefined ? defaultOctave : Number(octave);
+  return (oct + 1) * 12 + stepClasses[step.toUpperCase()] + alter;
+}
+
+// Parses whitespace separated note names. Each token is a note name (C4, F#3,
+// Bb, ...) or a rest (r), optionally followed by `:duration` in quarter notes
+// (default 1), and by `~` to tie it to the next note.
+const parseNoteNames = (
+  text: string,
+  { defaultOctave = 4 }: { defaultOctave?: number } = {}
+) => {
+  const events: NoteEvent[] = [];
+  const locate = lineLocator(text);
+  const tokenRegex = /\S+/g;
+  let match: RegExpExecArray | null;
+  let tiedFromPrevious = false;
+  while ((match = tokenRegex.exec(text)) !== null) {
+    let token = match[0];
+    const tieStart = token.endsWith('~');
+    if (tieStart) token = token.slice(0, -1);
+    const [name, dur] = token.split(':');
+    const duration = dur === undefined ? 1 : Number(dur);
+    if (!(duration > 0)) {
+      throw new Error(`Invalid duration in token: ${match[0]}`);
+    }
+    const rest = name === 'r' || name === 'R';
+    events.push({
+      pitch: rest ? undefined : noteNameToMidi(name, defaultOctave),
+      duration,
+      rest,
+      tieStart,
+      tieStop: tiedFromPrevious,
+      position: {
+        index: events.length,
+        offset: match.index,
+        ...locate(match.index)
+      }
+    });
+    tiedFromPrevious = tieStart;
+  }
+  return events;
+}
+
+const tagContent = (xml: string, tag: string) => {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? match[1].trim() : undefined;
+}
+
+const hasTag = (xml: string, tag: string) => {
+  return new RegExp(`<${tag}(?:\\s[^>]*)?/?>`).test(xml);
+}
+
+const openingTag = (element: string) => {
+  return element.slice(0, element.indexOf('>') + 1);
+}
+
+const attribute = (tag: string, name: string) => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`).exec(tag);
+  return match ? match[1] : undefined;
+}
+
+// MusicXML's default voice
+const noteVoice = (note: string) => tagContent(note, 'voice') ?? '1';
+
+// Reads the <note> elements of one voice of one part of a (partwise,
+// uncompressed) MusicXML score. Grace notes are skipped; chord notes are
+// reduced to a single event. Voices follow one another within a measure,
+// separated by <backup>, so reading a single voice keeps its notes in time
+// order; a <forward> in that voice becomes a rest.
+const parseMusicXML = (
+  xml: string,
+  {
+    part = undefined,
+    voice = undefined,
+    chord = 'highest'
+  }: {
+    part?: string, // part id, defaults to the first part
+    voice?: string, // defaults to the voice of the first note in the part
+    chord?: ChordReduction
+  } = {}
+) => {
+  const partRegex = /<part\s[^>]*>([\s\S]*?)<\/part>/g;
+  let partMatch: RegExpExecArray | null;
+  let found: RegExpExecArray | undefined;
+  while ((partMatch = partRegex.exec(xml)) !== null) {
+    const id = attribute(openingTag(partMatch[0]), 'id');
+    if (part === undefined || id === part) {
+      found = partMatch;
+      break;
+    }
+  }
+  if (found === undefined) {
+    throw new Error(part === undefined ?
+      'No <part> found in MusicXML' :
+      `Part ${part} not found in MusicXML`
+    );
+  }
+  const partOpen = openingTag(found[0]);
+  const partId = attribute(partOpen, 'id');
+  const partOffset = found.index + partOpen.length;
+  const body = found[1];
+  const firstNote = /<note\b[^>]*>[\s\S]*?<\/note>/.exec(body);
+  const selected = voice ?? (firstNote ? noteVoice(firstNote[0]) : '1');
+  const locate = lineLocator(xml);
+  const events: NoteEvent[] = [];
+  const chordPitches: number[][] = [];
+  let divisions = 1;
+  let measure: string | undefined;
+  let noteIndex = 0;
+  const itemRegex = new RegExp([
+    '<measure\\b[^>]*>',
+    '<divisions>\\s*([\\d.]+)\\s*</divisions>',
+    '<note\\b[^>]*>[\\s\\S]*?</note>',
+    '<forward\\b[^>]*>[\\s\\S]*?</forward>'
+  ].join('|'), 'g');
+  let item: RegExpExecArray | null;
+  while ((item = itemRegex.exec(body)) !== null) {
+    const text = item[0];
+    if (text.startsWith('<measure')) {
+      measure = attribute(text, 'number');
+      continue;
+    } else if (text.startsWith('<divisions')) {
+      divisions = Number(item[1]);
+      continue;
+    }
+    const index = noteIndex++;
+    if (hasTag(text, 'grace')) continue;
+    if (noteVoice(text) !== selected) continue;
+    const rest = text.startsWith('<forward') || hasTag(text, 'rest');
+    let pitch: number | undefined;
+    if (!rest) {
+      const pitchXml = tagContent(text, 'pitch');
+      if (pitchXml === undefined) continue; // unpitched percussion
+      const step = tagContent(pitchXml, 'step')!;
+      const alter = Number(tagContent(pitchXml, 'alter') ?? 0);
+      const octave = Number(tagContent(pitchXml, 'octave'));
+      pitch = (octave + 1) * 12 + stepClasses[step] + alter;
+    }
+    if (hasTag(text, 'chord') && events.length > 0 && pitch !== undefined) {
+      chordPitches[chordPitches.length - 1].push(pitch);
+      continue;
+    }
+    const ties = text.match(/<tie\s[^>]*>/g) ?? [];
+    const offset = partOffset + item.index;
+    events.push({
+      pitch,
+      duration: Number(tagContent(text, 'duration') ?? 0) / divisions,
+      rest,
+      tieStart: ties.some(tie => attribute(tie, 'type') === 'start'),
+      tieStop: ties.some(tie => attribute(tie, 'type') === 'stop'),
+      position: {
+        index,
+        offset,
+        ...locate(offset),
+        measure,
+        part: partId
+      }
+    });
+    chordPitches.push(pitch === undefined ? [] : [pitch]);
+  }
+  events.forEach((event, i) => {
+    const pitches = chordPitches[i];
+    if (pitches.length < 2) return;
+    if (chord === 'highest') {
+      event.pitch = Math.max(...pitches);
+    } else if (chord === 'lowest') {
+      event.pitch = Math.min(...pitches);
+    } else {
+      event.pitch = pitches.reduce((a, b) => a + b, 0) / pitches.length;
+    }
+  });
+  return events;
+}
+
+// Turns note events into a Morph of the given feature, along with the source
+// position of the event behind each point.
+const eventsToMorph = (
+  events: NoteEvent[],
+  {
+    feature = 'pitch',
+    rests = 'skip',
+    ties = 'merge'
+  }: {
+    feature?: NotationFeature,
+    rests?: RestHandling,
+    ties?: 'merge' | 'separate'
+  } = {}
+) => {
+  const notes: { pitch: number, duration: number, position: SourcePosition }[] = [];
+  events.forEach(event => {
+    const prev = notes[notes.length - 1];
+    if (event.rest) {
+      if (rests === 'merge' && prev) {
+        prev.duration += event.duration;
+      } else if (rests === 'repeat' && prev) {
+        notes.push({ ...prev, duration: event.duration, position: event.position });
+      }
+      return;
+    }
+    if (ties === 'merge' && event.tieStop && prev && prev.pitch === event.pitch) {
+      prev.duration += event.duration;
+      return;
+    }
+    notes.push({
+      pitch: event.pitch!,
+      duration: event.duration,
+      position: event.position
+    });
+  });
+  if (notes.length < 2) {
+    throw new Error('At least 2 notes are needed to make a Morph');
+  }
+  const data = notes.map(note => {
+    if (feature === 'pitch') {
+      return note.pitch;
+    } else if (feature === 'pitch class') {
+      return ((note.pitch % 12) + 12) % 12;
+    } else {
+      return note.duration;
+    }
+  });
+  const modulus = feature === 'pitch class' ? 12 : undefined;
+  return {
+    morph: new Morph(data, { modulus }),
+    positions: notes.map(n => n.position)
+  };
+}
+
+export {
+  noteNameToMidi,
+  parseNoteNames,
+  parseMusicXML,
+  eventsToMorph
+}
+
+export type { NoteEvent, SourcePosition, NotationFeature, RestHandling }
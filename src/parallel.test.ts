@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Morph } from './morphs';
+import { compute, deserializeOptions } from './registry';
+import { parallelAllPairs, PairResult } from './parallel';
+import { uniformMorph } from './generators';
+import { seededRandom } from './random';
+
+describe('Parallel all-pairs computation', () => {
+  const random = seededRandom(25);
+  const morphs = [...Array(6)].map(() => uniformMorph(10, { random }));
+  const metrics = [
+    'OCD' as const,
+    { metric: 'OCM' as const, options: { delta: { modulus: 12 } } },
+    { metric: 'OLM' as const, options: { scaling: 'relative' } }
+  ];
+  const expected = (i: number, j: number) => [
+    compute('OCD', morphs[i], morphs[j]),
+    compute('OCM', morphs[i], morphs[j], {
+      delta: deserializeOptions('OCM', { delta: { modulus: 12 } }).delta
+    }),
+    compute('OLM', morphs[i], morphs[j], { scaling: 'relative' })
+  ];
+
+  test('Deserializes named functions', () => {
+    const opts = deserializeOptions('OLMGeneral', { delta: 'intervalClass' });
+    expect(opts.delta!(1, 11)).toEqual(2);
+    const modular = deserializeOptions('OCM', { delta: { modulus: 19 } });
+    expect(modular.delta!(0, 15)).toEqual(4);
+    expect(() => deserializeOptions('OCM', { delta: 'nope' })).toThrow();
+    expect(() => deserializeOptions('OCM', { delta: 'constructor' })).toThrow();
+    expect(() => deserializeOptions('OCM', { delta: (a: number) => a }))
+      .toThrow();
+    expect(() => deserializeOptions('OCM', { order: 2 })).toThrow();
+  })
+
+  test('Streams results with progress', async () => {
+    const progress: number[] = [];
+    const streamed: PairResult[] = [];
+    const { signal } = new AbortController();
+    const removed = jest.spyOn(signal, 'removeEventListener');
+    const job = parallelAllPairs(morphs, metrics, {
+      workers: 2,
+      chunkSize: 4,
+      onProgress: completed => progress.push(completed),
+      signal
+    });
+    for await (const result of job) streamed.push(result);
+    const { results, cancelled } = await job.done;
+    expect(cancelled).toBe(false);
+    expect(results).toHaveLength(15);
+    expect(streamed).toEqual(results);
+    // a later iterator starts again from the first result
+    const again: PairResult[] = [];
+    for await (const result of job) again.push(result);
+    expect(again).toEqual(results);
+    expect(removed).toHaveBeenCalledWith('abort', expect.any(Function));
+    expect(progress).toEqual([...Array(15)].map((_, k) => k + 1));
+    results.forEach(({ i, j, values }) => {
+      expect(i).toBeLessThan(j);
+      values.forEach((v, k) => expect(v).toBeCloseTo(expected(i, j)[k], 10));
+    });
+  }, 60000)
+
+  test('Cancels a running job', async () => {
+    const controller = new AbortController();
+    const job = parallelAllPairs(morphs, ['OCD'], {
+      workers: 1,
+      chunkSize: 1,
+      signal: controller.signal,
+      onResult: () => controller.abort()
+    });
+    const { results, cancelled } = await job.done;
+    expect(cancelled).toBe(true);
+    expect(results.length).toBeLessThan(15);
+    expect(job.completed).toEqual(results.length);
+  }, 60000)
+
+  test('Reports errors', async () => {
+    const short = [...morphs.slice(0, 2), new Morph([1, 2, 3])];
+    const job = parallelAllPairs(short, ['OCD'], { workers: 1 });
+    await expect(job.done).rejects.toThrow('same number of points');
+    expect(() => parallelAllPairs(morphs, [])).toThrow();
+    expect(() => parallelAllPairs(morphs, ['OCD'], { pairs: [[0, 9]] }))
+      .toThrow();
+    const empty = await parallelAllPairs(morphs, ['OCD'], { pairs: [] }).done;
+    expect(empty).toEqual({ results: [], cancelled: false });
+  }, 60000)
+
+  test('Fails when a worker exits early', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'morphs-'));
+    const crash = join(dir, 'crash.js');
+    const idle = join(dir, 'idle.js');
+    writeFileSync(crash, 'process.exit(3);');
+    writeFileSync(idle, '');
+    const crashed = parallelAllPairs(morphs, ['OCD'], { workerFile: crash });
+    await expect(crashed.done).rejects.toThrow('exit code 3');
+    const stopped = parallelAllPairs(morphs, ['OCD'], { workerFile: idle });
+    const iterate = async () => {
+      for await (const _ of stopped) continue;
+    };
+    await expect(iterate()).rejects.toThrow('exit code 0');
+    rmSync(dir, { recursive: true });
+  }, 60000)
+})
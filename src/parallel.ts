@@ -0,0 +1,305 @@
+import { cpus } from 'os';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { Morph } from './morphs';
+import {
+  RegisteredMetric,
+  SerializedMetricSpec,
+  SerializedOptions,
+  deserializeOptions
+} from './registry';
+import { BatchEngine } from './batch';
+
+// Pairwise metrics across worker threads. The pairs are split into chunks,
+// which are handed to idle workers; results are streamed back as each pair
+// finishes. Metrics and their options must be serializable (functions are
+// named, see SerializedFunction), since closures cannot cross threads.
+
+type PairResult = { i: number, j: number, values: number[] };
+
+type ParallelOutcome = { results: PairResult[], cancelled: boolean };
+
+type SerializedMorph = { data: number[], modulus?: number, weights?: number[] };
+
+type WorkerInit = {
+  morphologicalMetricsWorker: true,
+  morphs: SerializedMorph[],
+  metrics: { metric: RegisteredMetric, options?: SerializedOptions }[]
+};
+
+type WorkerMessage =
+  { type: 'result', result: PairResult } |
+  { type: 'done' } |
+  { type: 'error', message: string };
+
+const normalizeSpec = (spec: SerializedMetricSpec) => {
+  return typeof spec === 'string' ? { metric: spec } : spec;
+}
+
+// Runs inside a worker: computes each chunk of pairs it is sent
+const runWorker = () => {
+  const init = workerData as WorkerInit;
+  const morphs = init.morphs.map(({ data, modulus, weights }) => {
+    return new Morph(data, { modulus, weights });
+  });
+  const specs = init.metrics.map(({ metric, options }) => {
+    return { metric, options: deserializeOptions(metric, options) };
+  });
+  const engine = new BatchEngine();
+  parentPort!.on('message', (pairs: [number, number][]) => {
+    try {
+      pairs.forEach(([i, j]) => {
+        const values = engine.compute(morphs[i], morphs[j], specs);
+        const message: WorkerMessage = {
+          type: 'result',
+          result: { i, j, values }
+        };
+        parentPort!.postMessage(message);
+      });
+      parentPort!.postMessage({ type: 'done' });
+    } catch (e) {
+      parentPort!.postMessage({ type: 'error', message: (e as Error).message });
+    }
+  });
+}
+
+if (!isMainThread && (workerData as WorkerInit)?.morphologicalMetricsWorker) {
+  runWorker();
+}
+
+// The script each worker runs. When running from TypeScript sources (e.g.
+// under ts-jest), the worker transpiles them with the TypeScript compiler.
+const workerScript = (file: string) => {
+  const load = `require(${JSON.stringify(file)});`;
+  if (!file.endsWith('.ts')) return load;
+  return `
+    const { readFileSync } = require('fs');
+    const ts = require('typescript');
+    require.extensions['.ts'] = (module, filename) => {
+      const source = readFileSync(filename, 'utf8');
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, esModuleInterop: true }
+      });
+      module._compile(outputText, filename);
+    };
+    ${load}
+  `;
+}
+
+// The module that workers load. The ES module build has no __filename, so
+// callers there must pass the path of the CommonJS build.
+const defaultWorkerFile = () => {
+  if (typeof __filename === 'undefined') {
+    throw new Error(
+      'Cannot locate the worker module from an ES module build; pass the ' +
+      'path of the CommonJS build (dist/node.js) as workerFile'
+    );
+  }
+  return __filename;
+}
+
+// A running all-pairs computation. Results can be read as they arrive with
+// `for await`, or all at once from `done`.
+class ParallelJob {
+  total: number;
+  completed: number;
+  cancelled: boolean;
+  done: Promise<ParallelOutcome>;
+  private results: PairResult[];
+  private waiting: (() => void)[]; // iterators waiting for results
+  private finished: boolean;
+  private failure?: Error;
+  private workers: Worker[];
+  private settle!: (error?: Error) => void;
+
+  constructor(
+    morphs: Morph[],
+    metrics: SerializedMetricSpec[],
+    pairs: [number, number][],
+    {
+      workers,
+      chunkSize,
+      onResult,
+      onProgress,
+      signal,
+      workerFile
+    }: {
+      workers: number,
+      chunkSize: number,
+      onResult?: (result: PairResult) => void,
+      onProgress?: (completed: number, total: number) => void,
+      signal?: AbortSignal,
+      workerFile: string
+    }
+  ) {
+    this.total = pairs.length;
+    this.completed = 0;
+    this.cancelled = false;
+    this.results = [];
+    this.waiting = [];
+    this.finished = false;
+    this.workers = [];
+    const onAbort = () => this.cancel();
+    this.done = new Promise<ParallelOutcome>((resolve, reject) => {
+      this.settle = error => {
+        if (this.finished) return;
+        this.finished = true;
+        this.failure = error;
+        this.workers.forEach(w => w.terminate());
+        signal?.removeEventListener('abort', onAbort);
+        this.wake();
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ results: this.results, cancelled: this.cancelled });
+        }
+      };
+    });
+    // a rejection is reported through `done` or the iterator, whichever the
+    // caller uses
+    this.done.catch(() => undefined);
+    const chunks: [number, number][][] = [];
+    for (let k = 0; k < pairs.length; k += chunkSize) {
+      chunks.push(pairs.slice(k, k + chunkSize));
+    }
+    if (chunks.length === 0) {
+      this.settle();
+      return;
+    }
+    if (signal?.aborted) {
+      this.cancel();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const init: WorkerInit = {
+      morphologicalMetricsWorker: true,
+      morphs: morphs.map(m => ({
+        data: m.data,
+        modulus: m.modulus,
+        weights: m.weights
+      })),
+      metrics: metrics.map(normalizeSpec)
+    };
+    let next = 0;
+    const count = Math.max(1, Math.min(workers, chunks.length));
+    for (let w = 0; w < count; w++) {
+      const worker = new Worker(workerScript(workerFile), {
+        eval: true,
+        workerData: init
+      });
+      this.workers.push(worker);
+      const feed = () => {
+        if (next < chunks.length) worker.postMessage(chunks[next++]);
+      };
+      worker.on('message', (message: WorkerMessage) => {
+        if (this.finished) return;
+        if (message.type === 'result') {
+          this.results.push(message.result);
+          this.completed++;
+          onResult?.(message.result);
+          onProgress?.(this.completed, this.total);
+          this.wake();
+          if (this.completed === this.total) this.settle();
+        } else if (message.type === 'done') {
+          feed();
+        } else {
+          this.settle(new Error(message.message));
+        }
+      });
+      worker.on('error', error => this.settle(error));
+      // workers only stop when the job settles, so any earlier exit (even
+      // with code 0) means that some pairs will never arrive
+      worker.on('exit', code => {
+        this.settle(new Error(
+          `A worker stopped with exit code ${code} before all pairs were ` +
+          'computed'
+        ));
+      });
+      feed();
+    }
+  }
+
+  // Stops the workers; `done` resolves with the results so far
+  cancel() {
+    if (this.finished) return;
+    this.cancelled = true;
+    this.settle();
+  }
+
+  private wake() {
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(resolve => resolve());
+  }
+
+  // Each iterator reads `results` from the start, with its own cursor
+  async *[Symbol.asyncIterator](): AsyncGenerator<PairResult> {
+    let cursor = 0;
+    while (true) {
+      while (cursor < this.results.length) yield this.results[cursor++];
+      if (this.failure) throw this.failure;
+      if (this.finished) return;
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+}
+
+// Computes metrics between every pair of morphs i < j (or the given pairs of
+// indices) on worker threads.
+const parallelAllPairs = (
+  morphs: Morph[],
+  metrics: SerializedMetricSpec[],
+  {
+    pairs = undefined,
+    workers = Math.max(1, cpus().length - 1),
+    chunkSize = 16,
+    onResult = undefined,
+    onProgress = undefined,
+    signal = undefined,
+    workerFile = defaultWorkerFile()
+  }: {
+    pairs?: [number, number][],
+    workers?: number,
+    chunkSize?: number, // pairs sent to a worker at a time
+    onResult?: (result: PairResult) => void,
+    onProgress?: (completed: number, total: number) => void,
+    signal?: AbortSignal,
+    // the CommonJS module that workers load, by default this one; required
+    // from the ES module build
+    workerFile?: string
+  } = {}
+) => {
+  if (metrics.length === 0) {
+    throw new Error('At least one metric is needed');
+  }
+  if (!(chunkSize >= 1)) {
+    throw new Error('Chunk size must be at least 1');
+  }
+  // checked here, so that bad specs fail before any worker starts
+  metrics.map(normalizeSpec).forEach(({ metric, options }) => {
+    deserializeOptions(metric, options);
+  });
+  let jobs = pairs;
+  if (jobs === undefined) {
+    jobs = [];
+    for (let i = 0; i < morphs.length - 1; i++) {
+      for (let j = i + 1; j < morphs.length; j++) jobs.push([i, j]);
+    }
+  }
+  jobs.forEach(([i, j]) => {
+    if (morphs[i] === undefined || morphs[j] === undefined) {
+      throw new Error(`There is no pair of morphs ${i} and ${j}`);
+    }
+  });
+  return new ParallelJob(morphs, metrics, jobs, {
+    workers,
+    chunkSize,
+    onResult,
+    onProgress,
+    signal,
+    workerFile
+  });
+}
+
+export { parallelAllPairs, ParallelJob }
+
+export type { PairResult, ParallelOutcome }
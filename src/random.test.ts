@@ -0,0 +1,27 @@
+import { seededRandom, randomInt, shuffle } from './random';
+
+describe('Seeded random numbers', () => {
+  test('Seeds give repeatable sequences', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const c = seededRandom(43);
+    const seqA = [...Array(5)].map(() => a());
+    expect([...Array(5)].map(() => b())).toEqual(seqA);
+    expect([...Array(5)].map(() => c())).not.toEqual(seqA);
+    seqA.forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  })
+
+  test('Integers and shuffles', () => {
+    const random = seededRandom(1);
+    const ints = [...Array(200)].map(() => randomInt(random, 3, 5));
+    expect(new Set(ints)).toEqual(new Set([3, 4, 5]));
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = shuffle(items, seededRandom(7));
+    expect(shuffled.slice().sort()).toEqual(items);
+    expect(shuffle(items, seededRandom(7))).toEqual(shuffled);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  })
+})
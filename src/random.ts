@@ -0,0 +1,42 @@
+// Seedable pseudo-random numbers, so that random processes (permutation
+// tests, generators, mutations, searches) can be reproduced. Anywhere a
+// `random` option is taken, it is a function returning numbers in [0, 1), like
+// Math.random.
+
+type Random = () => number;
+
+// Mulberry32: a small, fast 32-bit generator, good enough for statistics and
+// composition (not for cryptography).
+const seededRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Math.random, unless a seed is given
+const randomSource = (seed?: number): Random => {
+  return seed === undefined ? Math.random : seededRandom(seed);
+}
+
+const randomInt = (random: Random, min: number, max: number) => { // inclusive
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// Fisher-Yates shuffle, returning a new array
+const shuffle = <T>(items: T[], random: Random = Math.random) => {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+export { seededRandom, randomSource, randomInt, shuffle }
+
+export type { Random }
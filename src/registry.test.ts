@@ -0,0 +1,86 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import {
+  compute,
+  getMetric,
+  listMetrics,
+  metricRange,
+  metricRegistry,
+  satisfiesTriangleInequality
+} from './registry';
+
+describe('Metric registry', () => {
+  const m = new Morph([1, 5, 12, 2, 9, 6]);
+  const n = new Morph([7, 6, 4, 9, 8, 1]);
+  const mm = new MorphologicalMetric([m, n]);
+
+  test('Every registered metric is a MorphologicalMetric method', () => {
+    metricRegistry.forEach((info, name) => {
+      expect(info.name).toEqual(name);
+      expect(typeof mm[name]).toEqual('function');
+    });
+  })
+
+  test('Every registered metric can be traced', () => {
+    metricRegistry.forEach((_, name) => {
+      const plain = compute(name, m, n);
+      expect(Number.isFinite(plain)).toBe(true);
+      const trace = mm[name]({ verbose: true });
+      expect(trace).toHaveProperty('normalization');
+      expect(trace!.value).toEqual(plain);
+    });
+  })
+
+  test('Lists metrics by metadata', () => {
+    const unequal = listMetrics({ unequalLength: true }).map(i => i.name);
+    expect(unequal).toContain('ULDUnequalLengthForm');
+    expect(unequal).not.toContain('OLD');
+    const ordComb = listMetrics({ ordered: true, combinatorial: true });
+    expect(ordComb.map(i => i.name)).toEqual(['OCD', 'OCM', 'maxOCM']);
+    expect(getMetric('OLMScaled').range).toEqual([0, 1]);
+    expect(() => getMetric('XYZ')).toThrow();
+  })
+
+  test('Ranges depend on scaling options', () => {
+    expect(metricRange('OCM')).toEqual([0, Infinity]);
+    expect(metricRange('OCM', { scaling: 'relative' })).toEqual([0, 1]);
+    expect(metricRange('UCM', { scaling: 'absolute' })).toEqual([0, 1]);
+    expect(metricRange('ULM', { scaling: 'none' })).toEqual([0, Infinity]);
+    expect(metricRange('OLD', { verbose: true })).toEqual([0, 1]);
+  })
+
+  test('Computes metrics by name', () => {
+    expect(compute('OLM', m, n, { scaling: 'absolute' })).toEqual(0.46);
+    expect(compute('OCM', m, n)).toEqual(3.6);
+    expect(compute('OLD', m, n, { verbose: true })).toEqual(mm.OLD());
+    expect(compute('sigmaULM', m, n)).toEqual(mm.sigmaULM());
+  })
+
+  test('Validates options', () => {
+    expect(() => compute('OLM', m, n, { scaling: 'bogus' as 'none' }))
+      .toThrow(/one of/);
+    expect(() => compute('OLD', m, n, { verbose: 1 as unknown as boolean }))
+      .toThrow(/boolean/);
+    expect(() => compute('OCM', m, n, { foo: 1 } as object))
+      .toThrow(/Unknown option/);
+    expect(() => compute('XYZ' as 'OLD', m, n)).toThrow(/Unknown metric/);
+  })
+
+  test('Validates lengths', () => {
+    const o = new Morph([5, 3, 6, 1, 4]);
+    expect(() => compute('OLD', m, o)).toThrow(/same number of points/);
+    const mmUnequal = new MorphologicalMetric([m, o], false);
+    expect(compute('UCDUnequalLengthForm', m, o))
+      .toEqual(mmUnequal.UCDUnequalLengthForm());
+    expect(compute('ULM', m, o)).toEqual(mmUnequal.ULM());
+  })
+
+  test('Knows which metrics satisfy the triangle inequality', () => {
+    expect(satisfiesTriangleInequality('OLM')).toBe(true);
+    expect(satisfiesTriangleInequality('OLD')).toBe(true);
+    expect(satisfiesTriangleInequality('OLM', { scaling: 'absolute' }))
+      .toBe(false);
+    expect(satisfiesTriangleInequality('OLMOriginal', { squared: true }))
+      .toBe(false);
+    expect(satisfiesTriangleInequality('OLMScaled')).toBe(false);
+  })
+})
@@ -0,0 +1,590 @@
+import { Morph, MorphologicalMetric, delta, modularDelta } from './morphs';
+import { metricValue } from './corpus';
+
+// A registry describing every MorphologicalMetric method, so that metrics can
+// be listed and invoked by name (e.g. from a UI or a batch script), with
+// their options validated against a schema before they are run.
+
+type OptionType = 'boolean' | 'number' | 'number[]' | 'function' | 'enum';
+
+type OptionSchema = {
+  type: OptionType,
+  values?: readonly string[], // allowed values, for 'enum' options
+  default?: unknown,
+  description?: string
+};
+
+type MetricInfo = {
+  name: RegisteredMetric,
+  page: string, // Polansky, 1996
+  ordered: boolean,
+  combinatorial: boolean,
+  unequalLength: boolean, // whether morphs of different lengths are allowed
+  range: [number, number],
+  // whether the metric, with its default options, is a true (pseudo)metric
+  // that satisfies the triangle inequality, as needed for indexed search
+  triangleInequality: boolean,
+  options: Record<string, OptionSchema>
+};
+
+type RegisteredMetric = (
+  'OLMOriginal' |
+  'SobalevOLM' |
+  'MagnitudeMetric' |
+  'OLMGeneral' |
+  'OLMMetaInterval' |
+  'ULMMetaInterval' |
+  'OLMGeneralizedInterval' |
+  'ULD' |
+  'OLD' |
+  'OCD' |
+  'UCD' |
+  'ULDUnequalLengthForm' |
+  'UCDUnequalLengthForm' |
+  'OLMCanonical' |
+  'OLMScaled' |
+  'ULM' |
+  'ULMAbsoluteScaling' |
+  'ULMRelativeScaling' |
+  'OLMRelativeScaling' |
+  'OLM' |
+  'OCM' |
+  'UCM' |
+  'maxULM' |
+  'maxOLM' |
+  'maxOCM' |
+  'maxUCM' |
+  'sigmaULM'
+);
+
+type MetricOptions<K extends RegisteredMetric> =
+  [Parameters<MorphologicalMetric[K]>[0]] extends [undefined] ? {} :
+  Exclude<Parameters<MorphologicalMetric[K]>[0], undefined>;
+
+const scalings = ['none', 'absolute', 'relative'] as const;
+const intervalForms = [
+  'adjacency interval',
+  'fundamental index',
+  'fundamental value',
+  'mean fundamental value',
+  'max fundamental value',
+  'combinatorial interval'
+] as const;
+
+const deltaOpt: OptionSchema = {
+  type: 'function',
+  description: 'interval function of two values, defaults to |a - b|'
+};
+const psiOpt: OptionSchema = {
+  type: 'function',
+  description: 'comparison of two intervals, defaults to |a - b|'
+};
+const scalingOpt: OptionSchema = {
+  type: 'enum',
+  values: scalings,
+  default: 'none'
+};
+const verboseOpt: OptionSchema = { type: 'boolean', default: false };
+const maxDistanceOpt: OptionSchema = {
+  type: 'number',
+  description: 'largest index distance between the points of an interval'
+};
+const distanceWeightsOpt: OptionSchema = {
+  type: 'number[]',
+  description: 'weight of the intervals at each index distance, from 1'
+};
+
+const metricList: MetricInfo[] = [
+  {
+    name: 'OLMOriginal',
+    page: '300 - 301',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: {
+      squared: { type: 'boolean', default: false },
+      order: { type: 'number', default: 1 },
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'SobalevOLM',
+    page: '300',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: {
+      maxOrder: { type: 'number', default: 2 },
+      minOrder: { type: 'number', default: 0 },
+      weights: { type: 'number[]', description: 'one weight per order' },
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'MagnitudeMetric',
+    page: '299',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [-Infinity, Infinity],
+    triangleInequality: true,
+    options: {
+      absolute: { type: 'boolean', default: true },
+      normalized: { type: 'boolean', default: true },
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'OLMGeneral',
+    page: '302',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: {
+      delta: deltaOpt,
+      order: { type: 'number', default: 1 },
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'OLMMetaInterval',
+    page: '303 - 304',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: false,
+    options: { psi: psiOpt, delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'ULMMetaInterval',
+    page: '304',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { psi: psiOpt, delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'OLMGeneralizedInterval',
+    page: '305',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: false,
+    options: {
+      delta: deltaOpt,
+      psi: psiOpt,
+      mIntervalForm: {
+        type: 'enum',
+        values: intervalForms,
+        default: 'adjacency interval'
+      },
+      mAdjacencyInterval: { type: 'number', default: 1 },
+      mFundamentalValue: { type: 'number' },
+      mFundamentalIndex: { type: 'number' },
+      nIntervalForm: {
+        type: 'enum',
+        values: intervalForms,
+        default: 'adjacency interval'
+      },
+      nAdjacencyInterval: { type: 'number', default: 1 },
+      nFundamentalValue: { type: 'number' },
+      nFundamentalIndex: { type: 'number' },
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'ULD',
+    page: '311 - 312',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  },
+  {
+    name: 'OLD',
+    page: '312 - 313',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  },
+  {
+    name: 'OCD',
+    page: '313 - 314',
+    ordered: true,
+    combinatorial: true,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: true,
+    options: {
+      maxDistance: maxDistanceOpt,
+      distanceWeights: distanceWeightsOpt,
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'UCD',
+    page: '314 - 315',
+    ordered: false,
+    combinatorial: true,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  },
+  {
+    name: 'ULDUnequalLengthForm',
+    page: '315 - 316',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  },
+  {
+    name: 'UCDUnequalLengthForm',
+    page: '315 - 316',
+    ordered: false,
+    combinatorial: true,
+    unequalLength: true,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  },
+  {
+    name: 'OLMCanonical',
+    page: '318 - 319',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'OLMScaled',
+    page: '319',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: false,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'ULM',
+    page: '320',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, scaling: scalingOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'ULMAbsoluteScaling',
+    page: '321',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, 1],
+    triangleInequality: false,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'ULMRelativeScaling',
+    page: '321 - 322',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'OLMRelativeScaling',
+    page: '322',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, 1],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'OLM',
+    page: '318 - 322',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { scaling: scalingOpt, delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'OCM',
+    page: '323',
+    ordered: true,
+    combinatorial: true,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: {
+      delta: deltaOpt,
+      scaling: scalingOpt,
+      maxDistance: maxDistanceOpt,
+      distanceWeights: distanceWeightsOpt,
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'UCM',
+    page: '325',
+    ordered: false,
+    combinatorial: true,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: {
+      delta: deltaOpt,
+      scaling: scalingOpt,
+      maxDistance: maxDistanceOpt,
+      distanceWeights: distanceWeightsOpt,
+      verbose: verboseOpt
+    }
+  },
+  {
+    name: 'maxULM',
+    page: '327',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'maxOLM',
+    page: '327',
+    ordered: true,
+    combinatorial: false,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'maxOCM',
+    page: '328',
+    ordered: true,
+    combinatorial: true,
+    unequalLength: false,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'maxUCM',
+    page: '328',
+    ordered: false,
+    combinatorial: true,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { delta: deltaOpt, verbose: verboseOpt }
+  },
+  {
+    name: 'sigmaULM',
+    page: '329',
+    ordered: false,
+    combinatorial: false,
+    unequalLength: true,
+    range: [0, Infinity],
+    triangleInequality: true,
+    options: { verbose: verboseOpt }
+  }
+];
+
+const metricRegistry = new Map<RegisteredMetric, MetricInfo>(
+  metricList.map(info => [info.name, info])
+);
+
+const listMetrics = (filter: Partial<Pick<
+  MetricInfo, 'ordered' | 'combinatorial' | 'unequalLength'
+>> = {}) => {
+  return [...metricRegistry.values()].filter(info => {
+    return (Object.keys(filter) as (keyof typeof filter)[]).every(key => {
+      return info[key] === filter[key];
+    });
+  });
+}
+
+const getMetric = (name: string) => {
+  const info = metricRegistry.get(name as RegisteredMetric);
+  if (info === undefined) {
+    throw new Error(`Unknown metric: ${name}`);
+  }
+  return info;
+}
+
+// The range of a metric's values with the given options: OLM, ULM, OCM and
+// UCM with absolute or relative scaling are within [0, 1].
+const metricRange = (name: string, opts: object = {}): [number, number] => {
+  const info = getMetric(name);
+  const { scaling } = opts as { scaling?: string };
+  if ('scaling' in info.options && scaling !== undefined &&
+    scaling !== 'none') {
+    return [0, 1];
+  }
+  return info.range;
+}
+
+const validateOption = (
+  metric: string,
+  key: string,
+  value: unknown,
+  schema: OptionSchema
+) => {
+  const fail = (expected: string) => {
+    throw new Error(`Option ${key} of ${metric} must be ${expected}`);
+  };
+  if (value === undefined) return;
+  if (schema.type === 'boolean' && typeof value !== 'boolean') {
+    fail('a boolean');
+  } else if (schema.type === 'number' &&
+      (typeof value !== 'number' || Number.isNaN(value))) {
+    fail('a number');
+  } else if (schema.type === 'number[]' &&
+      (!Array.isArray(value) || value.some(v => typeof v !== 'number'))) {
+    fail('an array of numbers');
+  } else if (schema.type === 'function' && typeof value !== 'function') {
+    fail('a function');
+  } else if (schema.type === 'enum' && !schema.values!.includes(value as string)) {
+    fail(`one of ${schema.values!.map(v => `'${v}'`).join(', ')}`);
+  }
+}
+
+const validateOptions = (info: MetricInfo, opts: object) => {
+  Object.entries(opts).forEach(([key, value]) => {
+    const schema = info.options[key];
+    if (schema === undefined) {
+      throw new Error(`Unknown option for ${info.name}: ${key}`);
+    }
+    validateOption(info.name, key, value, schema);
+  });
+}
+
+// Runs a metric by name, after checking the morphs and options against the
+// metric's metadata. Always returns a plain number, even for verbose options.
+const compute = <K extends RegisteredMetric>(
+  name: K,
+  m: Morph,
+  n: Morph,
+  opts?: MetricOptions<K>
+): number => {
+  const info = getMetric(name);
+  validateOptions(info, opts ?? {});
+  const sameLength = m.data.length === n.data.length;
+  if (!sameLength && !info.unequalLength) {
+    throw new Error(`${name} requires morphs with the same number of points`);
+  }
+  const mm = new MorphologicalMetric([m, n], sameLength);
+  return metricValue(mm, name, opts);
+}
+
+// A function option in a form that can be stored as JSON or sent to a worker
+// thread: the name of a member of `delta`, or the (shortest path) interval
+// class of a modulus, as made by `modularDelta`.
+type SerializedFunction = keyof typeof delta | { modulus: number };
+
+// Metric options, with SerializedFunctions in place of functions
+type SerializedOptions = Record<string, unknown>;
+
+type SerializedMetricSpec =
+  RegisteredMetric | { metric: RegisteredMetric, options?: SerializedOptions };
+
+// Turns serialized options back into metric options, resolving function
+// names, and validates them.
+const deserializeOptions = <K extends RegisteredMetric>(
+  name: K,
+  options: SerializedOptions = {}
+) => {
+  const info = getMetric(name);
+  const out: Record<string, unknown> = {};
+  Object.entries(options).forEach(([key, value]) => {
+    if (info.options[key]?.type !== 'function' || value === undefined) {
+      out[key] = value;
+    } else if (typeof value === 'string' &&
+      Object.prototype.hasOwnProperty.call(delta, value)) {
+      out[key] = delta[value as keyof typeof delta];
+    } else if (typeof value === 'object' && value !== null &&
+      typeof (value as { modulus: unknown }).modulus === 'number') {
+      out[key] = modularDelta((value as { modulus: number }).modulus).interval;
+    } else {
+      throw new Error(
+        `Option ${key} of ${name} must name a member of delta ` +
+        `(${Object.keys(delta).join(', ')}) or be { modulus }`
+      );
+    }
+  });
+  validateOptions(info, out);
+  return out as MetricOptions<K>;
+}
+
+// Whether a metric satisfies the triangle inequality with the given options.
+// Scaling both morphs by a shared maximum interval ('absolute' scaling),
+// squaring differences, signed differences, and custom comparison functions
+// (psi, or delta in OLMGeneral, which compares the two morphs' intervals)
+// all lose that guarantee. So do per-point weights, since each pair of morphs
+// is normalized by its own weights: the answer holds for unweighted morphs.
+const satisfiesTriangleInequality = <K extends RegisteredMetric>(
+  name: K,
+  opts?: MetricOptions<K>
+) => {
+  const info = getMetric(name);
+  const o = (opts ?? {}) as Record<string, unknown>;
+  if (!info.triangleInequality) return false;
+  if (o.scaling === 'absolute' || o.squared === true || o.absolute === false) {
+    return false;
+  }
+  if (o.psi !== undefined) return false;
+  if (name === 'OLMGeneral' && o.delta !== undefined) return false;
+  return true;
+}
+
+export {
+  metricRegistry,
+  listMetrics,
+  getMetric,
+  metricRange,
+  validateOptions,
+  compute,
+  satisfiesTriangleInequality,
+  deserializeOptions
+}
+
+export type {
+  MetricInfo,
+  MetricOptions,
+  OptionSchema,
+  OptionType,
+  RegisteredMetric,
+  SerializedFunction,
+  SerializedMetricSpec,
+  SerializedOptions
+}
@@ -0,0 +1,92 @@
+import { Morph, cc } from './morphs';
+import { compute } from './registry';
+import { VPTree, triangleViolations } from './search';
+import { seededRandom } from './random';
+
+describe('Nearest-neighbour search', () => {
+  const random = seededRandom(7);
+  const morphs = [...Array(300)].map(() => {
+    return new Morph([...Array(6)].map(() => Math.floor(random() * 24)));
+  });
+  const query = new Morph([0, 4, 7, 5, 12, 9]);
+  const brute = morphs
+    .map((morph, index) => ({
+      index,
+      distance: compute('OLMCanonical', query, morph)
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  test('Finds the k nearest morphs', () => {
+    const tree = new VPTree(morphs, 'OLMCanonical', { random: seededRandom(1) });
+    expect(tree.isMetric).toBe(true);
+    const before = tree.evaluations;
+    const found = tree.nearest(query, 5);
+    const expected = brute.slice(0, 5).map(b => b.distance);
+    expect(found.map(f => f.distance)).toEqual(expected);
+    expect(found[0].morph).toBe(morphs[found[0].index]);
+    expect(tree.evaluations - before).toBeLessThan(morphs.length);
+  })
+
+  test('Finds all morphs within a radius', () => {
+    const tree = new VPTree(morphs, 'OLMCanonical', { random: seededRandom(2) });
+    const radius = brute[20].distance;
+    const found = tree.within(query, radius);
+    const expected = brute.filter(b => b.distance <= radius);
+    const indices = found.map(f => f.index).sort();
+    expect(indices).toEqual(expected.map(b => b.index).sort());
+    expect(tree.within(query, -1)).toEqual([]);
+  })
+
+  test('Searches weighted morphs exhaustively', () => {
+    const weighted = morphs.map(m => {
+      return m.withData(m.data, { weights: m.data.map(() => 1 + random()) });
+    });
+    const tree = new VPTree(weighted, 'OLMCanonical', { random: seededRandom(4) });
+    expect(tree.isMetric).toBe(false);
+    expect(tree.warnings[0]).toContain('weighted morphs');
+    const expected = weighted
+      .map(morph => compute('OLMCanonical', query, morph))
+      .sort((a, b) => a - b);
+    const found = tree.nearest(query, 10).map(f => f.distance);
+    expect(found).toEqual(expected.slice(0, 10));
+    const radius = expected[30];
+    expect(tree.within(query, radius)).toHaveLength(
+      expected.filter(d => d <= radius).length
+    );
+    // a weighted query against an unweighted corpus
+    const plain = new VPTree(morphs, 'OLMCanonical', { random: seededRandom(5) });
+    const weightedQuery = query.withData(query.data, {
+      weights: [1, 4, 1, 4, 1, 4]
+    });
+    const bruteWeighted = morphs
+      .map(morph => compute('OLMCanonical', weightedQuery, morph))
+      .sort((a, b) => a - b);
+    expect(plain.nearest(weightedQuery, 5).map(f => f.distance))
+      .toEqual(bruteWeighted.slice(0, 5));
+  })
+
+  test('Reports distances that are not true metrics', () => {
+    const scaled = new VPTree(morphs.slice(0, 20), 'OLM', {
+      options: { scaling: 'absolute' }
+    });
+    expect(scaled.isMetric).toBe(false);
+    expect(scaled.warnings[0]).toContain('OLM does not satisfy');
+
+    const correlation = (m: Morph, n: Morph) => 1 - cc(m.data, n.data);
+    const violations = triangleViolations(morphs, correlation, {
+      random: seededRandom(3)
+    });
+    expect(violations.length).toBeGreaterThan(0);
+    expect(() => new VPTree(morphs, correlation, {
+      onNonMetric: 'throw',
+      random: seededRandom(3)
+    })).toThrow('triangle inequality');
+    const quiet = new VPTree(morphs, correlation, {
+      onNonMetric: 'ignore',
+      random: seededRandom(3)
+    });
+    expect(quiet.isMetric).toBe(false);
+    expect(quiet.warnings).toEqual([]);
+    expect(quiet.nearest(query, 3).length).toEqual(3);
+  })
+})
@@ -0,0 +1,221 @@
+import { Morph } from './morphs';
+import {
+  RegisteredMetric,
+  MetricOptions,
+  compute,
+  satisfiesTriangleInequality
+} from './registry';
+
+// Nearest-neighbour search over large collections of morphs, with a
+// vantage-point tree. Each node splits its morphs into those within the median
+// distance of a vantage point and those beyond it, so that the triangle
+// inequality lets whole subtrees be skipped during a query. That is only safe
+// for a true metric: otherwise (including registered metrics between weighted
+// morphs, whose normalization changes from pair to pair), queries compare the
+// query with every morph instead.
+
+type Distance = (m: Morph, n: Morph) => number;
+
+type Neighbor = { index: number, morph: Morph, distance: number };
+
+type VPNode = {
+  index: number, // the vantage point
+  radius: number, // median distance from the vantage point to the rest
+  inside?: VPNode, // distance <= radius
+  outside?: VPNode
+};
+
+type TriangleViolation = {
+  indices: [number, number, number],
+  excess: number // d(a, c) - (d(a, b) + d(b, c))
+};
+
+// Samples triples of morphs and returns those for which d(a, c) exceeds
+// d(a, b) + d(b, c). Finding none does not prove that a distance is a metric.
+const triangleViolations = (
+  morphs: Morph[],
+  distance: Distance,
+  {
+    samples = 100,
+    tolerance = 1e-9,
+    random = Math.random
+  }: {
+    samples?: number,
+    tolerance?: number,
+    random?: () => number
+  } = {}
+) => {
+  const violations: TriangleViolation[] = [];
+  if (morphs.length < 3) return violations;
+  const pick = () => Math.floor(random() * morphs.length);
+  for (let s = 0; s < samples; s++) {
+    const [a, b, c] = [pick(), pick(), pick()];
+    const [ab, bc, ac] = [
+      distance(morphs[a], morphs[b]),
+      distance(morphs[b], morphs[c]),
+      distance(morphs[a], morphs[c])
+    ];
+    const excess = ac - (ab + bc);
+    if (excess > tolerance) {
+      violations.push({ indices: [a, b, c], excess });
+    }
+  }
+  return violations;
+}
+
+class VPTree {
+  morphs: Morph[];
+  distance: Distance;
+  isMetric: boolean;
+  warnings: string[];
+  evaluations: number; // distance computations, during building and queries
+  root?: VPNode;
+  private registered: boolean;
+
+  constructor(
+    morphs: Morph[],
+    metric: RegisteredMetric | Distance,
+    {
+      options = undefined,
+      onNonMetric = 'warn',
+      samples = 100,
+      random = Math.random
+    }: {
+      options?: MetricOptions<RegisteredMetric>, // for registered metrics
+      // what to do when the distance is not a true metric; 'warn' records
+      // it in `warnings`
+      onNonMetric?: 'warn' | 'throw' | 'ignore',
+      // triples sampled to check a custom distance function
+      samples?: number,
+      random?: () => number
+    } = {}
+  ) {
+    this.morphs = morphs;
+    this.warnings = [];
+    this.evaluations = 0;
+    this.registered = typeof metric === 'string';
+    let reason: string | undefined;
+    if (typeof metric === 'string') {
+      this.distance = (m, n) => compute(metric, m, n, options);
+      if (!satisfiesTriangleInequality(metric, options)) {
+        reason = `${metric} does not satisfy the triangle inequality` +
+          ' with these options';
+      } else if (morphs.some(m => m.weights !== undefined)) {
+        reason = `${metric} does not satisfy the triangle inequality` +
+          ' between weighted morphs';
+      }
+    } else {
+      this.distance = metric;
+      const violations = triangleViolations(morphs, metric, { samples, random });
+      if (violations.length > 0) {
+        const [a, b, c] = violations[0].indices;
+        reason = 'The distance function does not satisfy the triangle ' +
+          `inequality (e.g. for morphs ${a}, ${b} and ${c})`;
+      }
+    }
+    this.isMetric = reason === undefined;
+    if (reason !== undefined) {
+      const message = `${reason}; queries will compare every morph`;
+      if (onNonMetric === 'throw') {
+        throw new Error(message);
+      } else if (onNonMetric === 'warn') {
+        this.warnings.push(message);
+      }
+    }
+    if (this.isMetric) {
+      this.root = this.build(morphs.map((_, i) => i), random);
+    }
+  }
+
+  // whether a query can prune subtrees
+  private prunes(query: Morph) {
+    return this.isMetric && !(this.registered && query.weights !== undefined);
+  }
+
+  // every morph, nearest to the query first
+  private scan(query: Morph): Neighbor[] {
+    return this.morphs
+      .map((morph, index) => ({
+        index,
+        morph,
+        distance: this.measure(query, morph)
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  private measure(m: Morph, n: Morph) {
+    this.evaluations++;
+    return this.distance(m, n);
+  }
+
+  private build(indices: number[], random: () => number): VPNode | undefined {
+    if (indices.length === 0) return undefined;
+    const pick = Math.floor(random() * indices.length);
+    const index = indices[pick];
+    const rest = indices.filter((_, i) => i !== pick);
+    if (rest.length === 0) return { index, radius: 0 };
+    const vp = this.morphs[index];
+    const dists = rest.map(i => ({ i, d: this.measure(vp, this.morphs[i]) }));
+    dists.sort((a, b) => a.d - b.d);
+    const radius = dists[Math.floor((dists.length - 1) / 2)].d;
+    return {
+      index,
+      radius,
+      inside: this.build(dists.filter(x => x.d <= radius).map(x => x.i), random),
+      outside: this.build(dists.filter(x => x.d > radius).map(x => x.i), random)
+    };
+  }
+
+  // The k morphs closest to the query, nearest first.
+  nearest(query: Morph, k: number = 1) {
+    if (!this.prunes(query)) return this.scan(query).slice(0, k);
+    const found: Neighbor[] = [];
+    let tau = Infinity;
+    const visit = (node: VPNode | undefined) => {
+      if (node === undefined) return;
+      const morph = this.morphs[node.index];
+      const d = this.measure(query, morph);
+      if (d < tau || found.length < k) {
+        const at = found.findIndex(f => f.distance > d);
+        found.splice(at === -1 ? found.length : at, 0, {
+          index: node.index,
+          morph,
+          distance: d
+        });
+        if (found.length > k) found.pop();
+        if (found.length === k) tau = found[k - 1].distance;
+      }
+      if (d <= node.radius) {
+        if (d - tau <= node.radius) visit(node.inside);
+        if (d + tau > node.radius) visit(node.outside);
+      } else {
+        if (d + tau > node.radius) visit(node.outside);
+        if (d - tau <= node.radius) visit(node.inside);
+      }
+    };
+    visit(this.root);
+    return found;
+  }
+
+  // All morphs within `radius` of the query, nearest first.
+  within(query: Morph, radius: number) {
+    if (!this.prunes(query)) {
+      return this.scan(query).filter(n => n.distance <= radius);
+    }
+    const found: Neighbor[] = [];
+    const visit = (node: VPNode | undefined) => {
+      if (node === undefined) return;
+      const morph = this.morphs[node.index];
+      const d = this.measure(query, morph);
+      if (d <= radius) found.push({ index: node.index, morph, distance: d });
+      if (d - radius <= node.radius) visit(node.inside);
+      if (d + radius > node.radius) visit(node.outside);
+    };
+    visit(this.root);
+    return found.sort((a, b) => a.distance - b.distance);
+  }
+}
+
+export { VPTree, triangleViolations }
+
+export type { Distance, Neighbor, TriangleViolation }
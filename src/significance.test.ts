@@ -0,0 +1,86 @@
+import { Morph } from './morphs';
+import { permutationTest, histogram } from './significance';
+import { seededRandom } from './random';
+
+describe('Permutation tests', () => {
+  const m = new Morph([0, 2, 4, 5, 7, 9, 11, 12, 11, 9, 7, 5]);
+  const n = m.transpose(3);
+
+  test('A transposition is closer than chance', () => {
+    const result = permutationTest(m, n, 'OLD', { samples: 200, seed: 1 });
+    expect(result.observed).toEqual(0);
+    expect(result.pValue).toBeLessThan(0.05);
+    expect(result.zScore).toBeLessThan(-2);
+    expect(result.nullValues).toHaveLength(200);
+    const counted = result.histogram.counts.reduce((a, b) => a + b, 0);
+    expect(counted).toEqual(200);
+    expect(result.histogram.edges).toHaveLength(21);
+  })
+
+  test('Seeds make results repeatable', () => {
+    const opts = { samples: 50, model: 'interval shuffle' as const };
+    const a = permutationTest(m, n, 'OLMCanonical', { ...opts, seed: 5 });
+    const b = permutationTest(m, n, 'OLMCanonical', {
+      ...opts,
+      random: seededRandom(5)
+    });
+    expect(b.nullValues).toEqual(a.nullValues);
+    expect(b.pValue).toEqual(a.pValue);
+  })
+
+  test('Interval shuffles keep the interval content', () => {
+    // ULM only depends on the interval content, not its order
+    const result = permutationTest(m, n, 'ULM', {
+      samples: 20,
+      model: 'interval shuffle',
+      seed: 2
+    });
+    expect(result.nullValues.every(v => Math.abs(v) < 1e-9)).toBe(true);
+    expect(result.sd).toBeCloseTo(0);
+    expect(result.pValue).toEqual(1);
+  })
+
+  test('Modular morphs are rearranged in their own space', () => {
+    const a = new Morph([0, 11, 1, 6, 4, 2, 10, 9], { modulus: 12 });
+    const b = a.transpose(5);
+    const result = permutationTest(a, b, 'OLD', { samples: 50, seed: 6 });
+    expect(result.observed).toEqual(0);
+    // interval shuffles of b keep its modular directions
+    const shuffled = permutationTest(a, b, 'ULD', {
+      samples: 20,
+      model: 'interval shuffle',
+      seed: 7
+    });
+    expect(shuffled.nullValues.every(v => Math.abs(v) < 1e-9)).toBe(true);
+  })
+
+  test('Weights move with the points they belong to', () => {
+    const opts = { samples: 50, seed: 8 };
+    const equal = m.data.map(() => 2);
+    const uneven = m.data.map((_, i) => i % 3 + 1);
+    const plain = permutationTest(m, n, 'OLMCanonical', opts);
+    const weighted = (weights: number[]) => permutationTest(
+      m.withData(m.data, { weights }),
+      n.withData(n.data, { weights }),
+      'OLMCanonical',
+      opts
+    );
+    expect(weighted(equal).nullValues).toEqual(plain.nullValues);
+    expect(weighted(uneven).nullValues).not.toEqual(plain.nullValues);
+  })
+
+  test('Alternatives and histograms', () => {
+    const far = m.invert();
+    const result = permutationTest(m, far, 'OLD', {
+      samples: 200,
+      alternative: 'greater',
+      seed: 3
+    });
+    expect(result.pValue).toBeLessThan(0.05);
+    expect(histogram([1, 1, 1], 4).counts).toEqual([3, 0, 0, 0]);
+    expect(histogram([0, 1, 2, 3], 2)).toEqual({
+      edges: [0, 1.5, 3],
+      counts: [2, 2]
+    });
+  })
+})
@@ -0,0 +1,106 @@
+import { Morph } from './morphs';
+import { RegisteredMetric, MetricOptions, compute } from './registry';
+import { Random, randomSource, shuffle } from './random';
+
+// Permutation tests: how unusual is the distance between two morphs, compared
+// with the distances to random rearrangements of one of them?
+
+// 'permutation' shuffles the points of n, along with their weights; 'interval
+// shuffle' shuffles the adjacent intervals of n, keeping its first value,
+// interval content and weights.
+type NullModel = 'permutation' | 'interval shuffle';
+
+// 'less' tests whether m and n are closer than chance, 'greater' whether they
+// are further apart
+type Alternative = 'less' | 'greater' | 'two-sided';
+
+type Histogram = {
+  edges: number[], // bins.length + 1 bin edges
+  counts: number[]
+};
+
+const rearrange = (morph: Morph, model: NullModel, random: Random) => {
+  if (model === 'permutation') {
+    const indices = morph.data.map((_, i) => i);
+    return morph.select(shuffle(indices, random));
+  }
+  const intervals = shuffle(morph.derivate(1), random);
+  const data = [morph.data[0]];
+  intervals.forEach(int => data.push(data[data.length - 1] + int));
+  return morph.withData(data, { weights: morph.weights });
+}
+
+const histogram = (values: number[], bins: number): Histogram => {
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const width = hi > lo ? (hi - lo) / bins : 1;
+  const edges = [...Array(bins + 1)].map((_, i) => lo + i * width);
+  const counts = Array(bins).fill(0);
+  values.forEach(v => {
+    const bin = Math.min(Math.floor((v - lo) / width), bins - 1);
+    counts[bin]++;
+  });
+  return { edges, counts };
+}
+
+// Compares the observed distance between m and n with the distances between m
+// and `samples` random rearrangements of n. The p-value counts the observed
+// value as one of the samples, so it is never 0.
+const permutationTest = <K extends RegisteredMetric>(
+  m: Morph,
+  n: Morph,
+  metric: K,
+  {
+    model = 'permutation',
+    samples = 1000,
+    alternative = 'less',
+    bins = 20,
+    options = undefined,
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    model?: NullModel,
+    samples?: number,
+    alternative?: Alternative,
+    bins?: number,
+    options?: MetricOptions<K>,
+    seed?: number,
+    random?: Random
+  } = {}
+) => {
+  if (samples < 1) {
+    throw new Error('At least one sample is needed');
+  }
+  const observed = compute(metric, m, n, options);
+  const nullValues = [...Array(samples)].map(() => {
+    return compute(metric, m, rearrange(n, model, random), options);
+  });
+  const mean = nullValues.reduce((a, b) => a + b, 0) / samples;
+  const variance = nullValues.reduce((a, b) => a + (b - mean) ** 2, 0) /
+    Math.max(samples - 1, 1);
+  const sd = variance ** 0.5;
+  const count = (test: (v: number) => boolean) => {
+    return (nullValues.filter(test).length + 1) / (samples + 1);
+  };
+  let pValue: number;
+  if (alternative === 'less') {
+    pValue = count(v => v <= observed);
+  } else if (alternative === 'greater') {
+    pValue = count(v => v >= observed);
+  } else {
+    pValue = count(v => Math.abs(v - mean) >= Math.abs(observed - mean));
+  }
+  return {
+    observed,
+    pValue,
+    zScore: sd === 0 ? 0 : (observed - mean) / sd,
+    mean,
+    sd,
+    nullValues,
+    histogram: histogram(nullValues, bins)
+  };
+}
+
+export { permutationTest, histogram }
+
+export type { NullModel, Alternative, Histogram }
@@ -0,0 +1,95 @@
+import { Morph } from './morphs';
+import { compute } from './registry';
+import { searchTargetDistance } from './targets';
+
+describe('Target-distance search', () => {
+  const source = new Morph([0, 4, 7, 5, 9, 2, 4, 11, 7]);
+  const targets = [
+    { metric: 'OLD' as const, distance: 0.25 },
+    { metric: 'OLMScaled' as const, distance: 0.4 }
+  ];
+
+  test('Hill climbing finds morphs at the target distances', () => {
+    const result = searchTargetDistance(source, targets, {
+      min: 0,
+      max: 11,
+      tolerance: 0.02,
+      count: 3,
+      seed: 1
+    });
+    expect(result.candidates).toHaveLength(3);
+    result.candidates.forEach(c => {
+      expect(c.morph.data).toHaveLength(9);
+      expect(c.morph.data.every(v => Number.isInteger(v) && v >= 0 && v <= 11))
+        .toBe(true);
+      expect(compute('OLD', source, c.morph)).toBeCloseTo(0.25);
+      expect(Math.abs(compute('OLMScaled', source, c.morph) - 0.4))
+        .toBeLessThanOrEqual(0.02);
+    });
+    expect(result.best.error).toEqual(result.candidates[0].error);
+  })
+
+  test('Genetic search within an alphabet', () => {
+    const alphabet = [0, 2, 4, 5, 7, 9, 11];
+    const result = searchTargetDistance(source, targets, {
+      alphabet,
+      method: 'genetic',
+      tolerance: 0.03,
+      seed: 2
+    });
+    expect(result.candidates).toHaveLength(1);
+    const [candidate] = result.candidates;
+    expect(candidate.morph.data.every(v => alphabet.includes(v))).toBe(true);
+    candidate.values.forEach((v, i) => {
+      expect(Math.abs(v - targets[i].distance)).toBeLessThanOrEqual(0.03);
+    });
+  })
+
+  test('Seeded searches are repeatable', () => {
+    const opts = { seed: 3, iterations: 500 };
+    const a = searchTargetDistance(source, targets, opts);
+    const b = searchTargetDistance(source, targets, opts);
+    expect(a.best.morph).toEqual(b.best.morph);
+    expect(a.evaluations).toEqual(b.evaluations);
+  })
+
+  test('Candidates share a modular source\'s modulus', () => {
+    const modular = new Morph(source.data, { modulus: 12 });
+    const result = searchTargetDistance(modular, [targets[0]], {
+      min: 0,
+      max: 11,
+      seed: 5
+    });
+    expect(result.candidates).toHaveLength(1);
+    const [candidate] = result.candidates;
+    expect(candidate.morph.modulus).toEqual(12);
+    expect(compute('OLD', modular, candidate.morph)).toBeCloseTo(0.25);
+  })
+
+  test('Gives up after the evaluation budget', () => {
+    const impossible = [{ metric: 'OLD' as const, distance: 0.3 }];
+    const result = searchTargetDistance(source, impossible, {
+      iterations: 200,
+      seed: 4
+    });
+    expect(result.candidates).toHaveLength(0);
+    expect(result.evaluations).toEqual(200);
+    expect(result.best.error).toBeGreaterThan(0);
+    expect(() => searchTargetDistance(source, [])).toThrow();
+    expect(() => searchTargetDistance(source, targets, { alphabet: [20] }))
+      .toThrow();
+  })
+
+  test('Checks the candidate length against each metric', () => {
+    const length = source.data.length + 2;
+    expect(() => searchTargetDistance(source, targets, { length }))
+      .toThrow('OLD requires candidates with the same number of points');
+    const unequal = [{ metric: 'ULDUnequalLengthForm' as const, distance: 0 }];
+    const result = searchTargetDistance(source, unequal, {
+      length,
+      iterations: 50,
+      seed: 6
+    });
+    expect(result.best.morph.data).toHaveLength(length);
+  })
+})
@@ -0,0 +1,173 @@
+import { Morph } from './morphs';
+import {
+  RegisteredMetric,
+  MetricOptions,
+  compute,
+  getMetric
+} from './registry';
+import { Random, randomSource, randomInt } from './random';
+
+// Target-distance search: morphs at given distances from a source morph, e.g.
+// "a melody 0.25 OLD and 0.4 OLMScaled away from this one". Candidates are
+// built from an alphabet of allowed values, by hill climbing or by a genetic
+// search.
+
+type Target<K extends RegisteredMetric = RegisteredMetric> = {
+  metric: K,
+  distance: number,
+  options?: MetricOptions<K>,
+  weight?: number // of this target's error in the search, defaults to 1
+};
+
+type SearchMethod = 'hill climbing' | 'genetic';
+
+type TargetCandidate = {
+  morph: Morph,
+  values: number[], // the distance for each target
+  error: number // weighted sum of |value - distance|
+};
+
+type TargetSearchResult = {
+  candidates: TargetCandidate[], // distinct morphs meeting every target
+  best: TargetCandidate, // the closest morph found, even if it misses
+  evaluations: number
+};
+
+// Values of `alphabet` within [min, max]; by default, the integers from min to
+// max
+const allowedValues = (min: number, max: number, alphabet?: number[]) => {
+  const values = alphabet === undefined ?
+    [...Array(Math.floor(max) - Math.ceil(min) + 1)]
+      .map((_, i) => Math.ceil(min) + i) :
+    [...new Set(alphabet)].filter(v => v >= min && v <= max);
+  if (values.length === 0) {
+    throw new Error('No allowed values within [min, max]');
+  }
+  return values;
+}
+
+const searchTargetDistance = (
+  source: Morph,
+  targets: Target[],
+  {
+    length = source.data.length,
+    min = Math.min(...source.data),
+    max = Math.max(...source.data),
+    alphabet = undefined,
+    method = 'hill climbing',
+    tolerance = 0.01,
+    count = 1,
+    iterations = 5000,
+    population = 40,
+    mutationRate = undefined,
+    seed = undefined,
+    random = randomSource(seed)
+  }: {
+    length?: number, // of the candidates
+    min?: number,
+    max?: number,
+    alphabet?: number[], // allowed values
+    method?: SearchMethod,
+    tolerance?: number, // largest accepted |value - distance| per target
+    count?: number, // candidates to look for
+    // distance evaluations (each covering every target) before giving up
+    iterations?: number,
+    population?: number, // for the genetic search
+    mutationRate?: number, // per point, defaults to 1 / length
+    seed?: number,
+    random?: Random
+  } = {}
+): TargetSearchResult => {
+  if (targets.length === 0) {
+    throw new Error('At least one target is needed');
+  }
+  if (length < 2) {
+    throw new Error('Candidates must have at least 2 points');
+  }
+  if (length !== source.data.length) {
+    targets.forEach(({ metric }) => {
+      if (!getMetric(metric).unequalLength) {
+        throw new Error(
+          `${metric} requires candidates with the same number of points as ` +
+          'the source'
+        );
+      }
+    });
+  }
+  const values = allowedValues(min, max, alphabet);
+  const rate = mutationRate ?? 1 / length;
+  let evaluations = 0;
+  const found = new Map<string, TargetCandidate>();
+  let best: TargetCandidate | undefined;
+
+  const evaluate = (data: number[]): TargetCandidate => {
+    evaluations++;
+    const morph = source.withData(data);
+    const dists = targets.map(t => {
+      return compute(t.metric, source, morph, t.options);
+    });
+    const error = dists.reduce((a, d, i) => {
+      return a + (targets[i].weight ?? 1) * Math.abs(d - targets[i].distance);
+    }, 0);
+    const candidate = { morph, values: dists, error };
+    if (best === undefined || error < best.error) best = candidate;
+    const meets = dists.every((d, i) => {
+      return Math.abs(d - targets[i].distance) <= tolerance;
+    });
+    if (meets) found.set(data.join(','), candidate);
+    return candidate;
+  };
+  const done = () => found.size >= count || evaluations >= iterations;
+  const pick = () => values[randomInt(random, 0, values.length - 1)];
+  const randomData = () => [...Array(length)].map(pick);
+
+  if (method === 'hill climbing') {
+    // changes one point at a time, keeping changes that do not increase the
+    // error, and restarts from a random morph once a candidate is found or
+    // after `length * values.length` changes without improvement
+    let current = evaluate(randomData());
+    let stale = 0;
+    while (!done()) {
+      const data = current.morph.data.slice();
+      data[randomInt(random, 0, length - 1)] = pick();
+      const next = evaluate(data);
+      const improved = next.error < current.error;
+      if (next.error <= current.error) current = next;
+      stale = improved ? 0 : stale + 1;
+      if (found.has(current.morph.data.join(',')) ||
+        stale > length * values.length) {
+        current = evaluate(randomData());
+        stale = 0;
+      }
+    }
+  } else {
+    // tournament selection, uniform crossover, mutation and elitism
+    let pool = [...Array(population)].map(() => evaluate(randomData()));
+    const select = () => {
+      const a = pool[randomInt(random, 0, pool.length - 1)];
+      const b = pool[randomInt(random, 0, pool.length - 1)];
+      return a.error <= b.error ? a : b;
+    };
+    while (!done()) {
+      const elite = pool.reduce((a, b) => b.error < a.error ? b : a);
+      const next = [elite];
+      while (next.length < population && !done()) {
+        const [a, b] = [select().morph.data, select().morph.data];
+        const child = a.map((v, i) => {
+          if (random() < rate) return pick();
+          return random() < 0.5 ? v : b[i];
+        });
+        next.push(evaluate(child));
+      }
+      pool = next;
+    }
+  }
+  const candidates = [...found.values()]
+    .sort((a, b) => a.error - b.error)
+    .slice(0, count);
+  return { candidates, best: best!, evaluations };
+}
+
+export { searchTargetDistance }
+
+export type { Target, SearchMethod, TargetCandidate, TargetSearchResult }
@@ -0,0 +1,82 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { compute } from './registry';
+import { TimedMorph } from './timed';
+
+describe('Timed morphs', () => {
+  const timed = new TimedMorph([[0, 60], [1, 62], [1.5, 67], [3, 64]]);
+
+  test('Stores (time, value) pairs', () => {
+    expect(timed.times).toEqual([0, 1, 1.5, 3]);
+    expect(timed.values).toEqual([60, 62, 67, 64]);
+    expect(timed.points[2]).toEqual([1.5, 67]);
+    expect(timed.duration).toEqual(3);
+    expect(TimedMorph.fromArrays([0, 1], [5, 6]).points)
+      .toEqual([[0, 5], [1, 6]]);
+    expect(() => new TimedMorph([[0, 1]])).toThrow();
+    expect(() => new TimedMorph([[0, 1], [0, 2]])).toThrow();
+    expect(() => TimedMorph.fromArrays([0, 1], [1])).toThrow();
+  })
+
+  test('Onset-aware intervals', () => {
+    expect(timed.intervals[1]).toEqual({
+      start: 1,
+      end: 1.5,
+      duration: 0.5,
+      interval: 5,
+      rate: 10
+    });
+  })
+
+  test('Interpolates between onsets', () => {
+    expect(timed.valueAt(1.25, 'step')).toEqual(62);
+    expect(timed.valueAt(1.25)).toEqual(64.5);
+    expect(timed.valueAt(-1)).toEqual(60);
+    expect(timed.valueAt(5)).toEqual(64);
+    // a cubic spline passes through the points, and through a parabola's
+    // interior points more closely than straight lines do
+    expect(timed.valueAt(1.5, 'cubic')).toBeCloseTo(67);
+    const parabola = TimedMorph.fromArrays(
+      [0, 1, 2, 3, 4, 5, 6],
+      [0, 1, 4, 9, 16, 25, 36]
+    );
+    const cubicError = Math.abs(parabola.valueAt(3.5, 'cubic') - 12.25);
+    const linearError = Math.abs(parabola.valueAt(3.5) - 12.25);
+    expect(cubicError).toBeLessThan(linearError / 4);
+  })
+
+  test('Resamples to a uniform grid', () => {
+    expect(timed.resample({ step: 0.5, method: 'step' }).data)
+      .toEqual([60, 60, 62, 67, 67, 67, 64]);
+    expect(timed.resample({ step: 0.5 }).data)
+      .toEqual([60, 61, 62, 67, 66, 65, 64]);
+    expect(timed.resample({ count: 4 }).data).toEqual([60, 62, 66, 64]);
+    const cubic = timed.resample({ count: 7, method: 'cubic' });
+    expect(cubic.data).toHaveLength(7);
+    expect(cubic.data[0]).toEqual(60);
+    expect(cubic.data[6]).toEqual(64);
+    expect(() => timed.resample()).toThrow();
+    expect(() => timed.resample({ step: 1, count: 3 })).toThrow();
+  })
+
+  test('Time-normalized derivatives', () => {
+    expect(timed.derivate(1)).toEqual([2, 10, -2]);
+    // rates at times 0.5, 1.25 and 2.25
+    expect(timed.derivate(2)).toEqual([8 / 0.75, -12]);
+    expect(timed.derivate(1, true)).toEqual([2, 10, 2]);
+    expect(() => timed.derivate(4)).toThrow();
+  })
+
+  test('Works with existing metrics once converted', () => {
+    const other = new TimedMorph([[0, 60], [2, 64], [3, 64]]);
+    const [a, b] = [
+      timed.resample({ count: 8 }),
+      other.resample({ count: 8 })
+    ];
+    expect(compute('OLM', a, b)).toBeGreaterThan(0);
+    expect(new MorphologicalMetric([a, b]).OLD()).toBeLessThanOrEqual(1);
+    const morph = timed.toMorph({ weighted: true });
+    expect(morph.data).toEqual([60, 62, 67, 64]);
+    expect(morph.weights).toEqual([0.5, 0.75, 1, 0.75]);
+    expect(timed.toMorph()).toEqual(new Morph([60, 62, 67, 64]));
+  })
+})
@@ -0,0 +1,198 @@
+import { Morph } from './morphs';
+
+// Morphs with onset times, for performance data and envelopes with irregular
+// timing. A TimedMorph is resampled to a uniform grid (or converted point by
+// point) to get a Morph, which works with every metric.
+
+type TimedPoint = [number, number]; // [time, value]
+
+type Interpolation = 'step' | 'linear' | 'cubic';
+
+type TimedInterval = {
+  start: number, // onset of the first point
+  end: number, // onset of the second point
+  duration: number, // inter-onset interval
+  interval: number, // change in value
+  rate: number // interval / duration
+};
+
+// Second derivatives of the natural cubic spline through the points, from the
+// usual tridiagonal system (with zero curvature at both ends)
+const splineCurvatures = (times: number[], values: number[]) => {
+  const L = times.length;
+  const curvatures = Array(L).fill(0) as number[];
+  if (L < 3) return curvatures;
+  const h = times.slice(1).map((t, i) => t - times[i]);
+  const slopes = h.map((hi, i) => (values[i + 1] - values[i]) / hi);
+  // forward elimination over the interior points
+  const diag: number[] = [], rhs: number[] = [];
+  for (let i = 1; i < L - 1; i++) {
+    let d = 2 * (h[i - 1] + h[i]);
+    let r = 6 * (slopes[i] - slopes[i - 1]);
+    if (i > 1) {
+      const factor = h[i - 1] / diag[i - 2];
+      d -= factor * h[i - 1];
+      r -= factor * rhs[i - 2];
+    }
+    diag.push(d);
+    rhs.push(r);
+  }
+  for (let i = L - 2; i >= 1; i--) {
+    const next = i < L - 2 ? h[i] * curvatures[i + 1] : 0;
+    curvatures[i] = (rhs[i - 1] - next) / diag[i - 1];
+  }
+  return curvatures;
+}
+
+class TimedMorph {
+  times: number[];
+  values: number[];
+  private curvatures?: number[]; // for cubic interpolation, computed lazily
+
+  constructor(points: TimedPoint[]) {
+    if (points.length < 2) {
+      throw new Error('Arrays must have at least 2 elements');
+    }
+    this.times = points.map(p => p[0]);
+    this.values = points.map(p => p[1]);
+    this.times.slice(1).forEach((t, i) => {
+      if (!(t > this.times[i])) {
+        throw new Error('Times must be strictly increasing');
+      }
+    });
+  }
+
+  static fromArrays(times: number[], values: number[]) {
+    if (times.length !== values.length) {
+      throw new Error('There must be one time per value');
+    }
+    return new TimedMorph(times.map((t, i) => [t, values[i]]));
+  }
+
+  get points(): TimedPoint[] {
+    return this.times.map((t, i) => [t, this.values[i]]);
+  }
+
+  get duration() {
+    return this.times[this.times.length - 1] - this.times[0];
+  }
+
+  // Intervals between successive onsets, with their inter-onset durations
+  get intervals(): TimedInterval[] {
+    return this.times.slice(1).map((end, i) => {
+      const start = this.times[i];
+      const interval = this.values[i + 1] - this.values[i];
+      return {
+        start,
+        end,
+        duration: end - start,
+        interval,
+        rate: interval / (end - start)
+      };
+    });
+  }
+
+  // The value at time t. Before the first onset and after the last, the first
+  // and last values are held.
+  valueAt(t: number, method: Interpolation = 'linear') {
+    const { times, values } = this;
+    const last = times.length - 1;
+    if (t <= times[0]) return values[0];
+    if (t >= times[last]) return values[last];
+    // the segment [times[i], times[i + 1]) holding t
+    let lo = 0, hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= t) lo = mid; else hi = mid;
+    }
+    const i = lo;
+    if (method === 'step') return values[i];
+    const h = times[i + 1] - times[i];
+    const a = (times[i + 1] - t) / h;
+    const b = 1 - a;
+    const linear = a * values[i] + b * values[i + 1];
+    if (method === 'linear') return linear;
+    if (this.curvatures === undefined) {
+      this.curvatures = splineCurvatures(times, values);
+    }
+    const c = this.curvatures;
+    return linear +
+      ((a ** 3 - a) * c[i] + (b ** 3 - b) * c[i + 1]) * h ** 2 / 6;
+  }
+
+  // Samples the morph on a uniform grid from `start` to `end`, either every
+  // `step` time units or at `count` evenly spaced times (including both
+  // ends).
+  resample({
+    step = undefined,
+    count = undefined,
+    method = 'linear',
+    start = this.times[0],
+    end = this.times[this.times.length - 1]
+  }: {
+    step?: number,
+    count?: number,
+    method?: Interpolation,
+    start?: number,
+    end?: number
+  } = {}) {
+    if ((step === undefined) === (count === undefined)) {
+      throw new Error('Either step or count must be given');
+    }
+    if (!(end > start)) {
+      throw new Error('End must be after start');
+    }
+    let grid: number[];
+    if (step !== undefined) {
+      if (!(step > 0)) {
+        throw new Error('Step must be greater than 0');
+      }
+      // a small tolerance keeps `end` on the grid despite rounding errors
+      const steps = Math.floor((end - start) / step + 1e-9);
+      grid = [...Array(steps + 1)].map((_, i) => start + i * step);
+    } else {
+      if (!Number.isInteger(count) || count! < 2) {
+        throw new Error('Count must be an integer of at least 2');
+      }
+      grid = [...Array(count)].map((_, i) => {
+        return start + (end - start) * i / (count! - 1);
+      });
+    }
+    return new Morph(grid.map(t => this.valueAt(t, method)));
+  }
+
+  // nth order derivative with respect to time: first order rates of change
+  // are interval / duration, and each higher order takes the differences of
+  // the previous one over the times between the midpoints of its segments.
+  derivate(order = 1, absolute = false) {
+    if (order < 0) {
+      throw new Error('Order must be greater than 0');
+    }
+    if (this.times.length - order < 1) {
+      throw new Error('Order must be less than the length of the array');
+    }
+    let times = this.times;
+    let out = this.values;
+    for (let k = 0; k < order; k++) {
+      const [t, v] = [times, out];
+      out = v.slice(1).map((x, i) => (x - v[i]) / (t[i + 1] - t[i]));
+      times = t.slice(1).map((x, i) => (x + t[i]) / 2);
+    }
+    return absolute ? out.map(x => Math.abs(x)) : out;
+  }
+
+  // The values as a Morph, one point per onset. With `weighted`, each point
+  // is weighted by the time it covers: half the gaps to its neighbours.
+  toMorph({ weighted = false }: { weighted?: boolean } = {}) {
+    if (!weighted) return new Morph(this.values.slice());
+    const gaps = this.intervals.map(int => int.duration);
+    const weights = this.times.map((_, i) => {
+      return ((gaps[i - 1] ?? 0) + (gaps[i] ?? 0)) / 2;
+    });
+    return new Morph(this.values.slice(), { weights });
+  }
+}
+
+export { TimedMorph }
+
+export type { TimedPoint, Interpolation, TimedInterval }
@@ -0,0 +1,130 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { 
+  windows, 
+  windowedDistance, 
+  motifDistance, 
+  selfSimilarityMatrix, 
+  crossSimilarityMatrix,
+  discoverMotifs
+} from './windowed';
+
+describe('Windowed analysis', () => {
+  const melody = new Morph([0, 2, 4, 2, 0, 7, 5, 9, 0, 2, 4, 2, 0]);
+
+  test('Windows', () => {
+    const wins = windows(melody, 5, 4);
+    expect(wins.map(w => w.data)).toEqual([
+      [0, 2, 4, 2, 0], [0, 7, 5, 9, 0], [0, 2, 4, 2, 0]
+    ]);
+    expect(() => windows(melody, 1)).toThrow();
+    expect(() => windows(melody, 20)).toThrow();
+    expect(() => windows(melody, 4, 0)).toThrow();
+  })
+
+  test('Motif distance finds returns of the motif', () => {
+    const motif = new Morph([0, 2, 4, 2, 0]);
+    const { starts, values } = motifDistance(melody, motif, 'OLMCanonical');
+    expect(starts).toHaveLength(9);
+    expect(values[0]).toEqual(0);
+    expect(values[8]).toEqual(0);
+    expect(values[4]).toBeGreaterThan(0);
+  })
+
+  test('Windowed distance between two morphs', () => {
+    const other = new Morph([0, 2, 4, 2, 0, 2, 4, 2, 0, 2, 4, 2, 0]);
+    const { starts, values } = windowedDistance(melody, other, 'OLD', { 
+      length: 4, 
+      hop: 2 
+    });
+    expect(starts).toEqual([0, 2, 4, 6, 8]);
+    expect(values[0]).toEqual(0);
+    const mWin = new Morph(melody.data.slice(4, 8));
+    const oWin = new Morph(other.data.slice(4, 8));
+    expect(values[2]).toEqual(new MorphologicalMetric([mWin, oWin]).OLD());
+  })
+
+  test('Windows of modular morphs keep the modulus', () => {
+    const a = new Morph([0, 11, 10, 9, 10], { modulus: 12 });
+    const b = new Morph([12, 11, 10, 21, 22], { modulus: 12 });
+    expect(windows(a, 3).every(w => w.modulus === 12)).toBe(true);
+    const windowed = windowedDistance(a, b, 'OLD', { length: 3 });
+    expect(windowed.values).toEqual([0, 0, 0]);
+    const motif = new Morph([12, 23, 22], { modulus: 12 });
+    expect(motifDistance(a, motif, 'OLD').values).toEqual([0, 0, 0.5]);
+  })
+
+  test('Windows of weighted morphs keep their weights', () => {
+    const weights = [1, 1, 4, 4, 1];
+    const a = new Morph([0, 2, 4, 2, 0], { weights });
+    const b = new Morph([0, 1, 4, 4, 0], { weights });
+    expect(windows(a, 3, 2).map(w => w.weights))
+      .toEqual([[1, 1, 4], [4, 4, 1]]);
+    const { values } = windowedDistance(a, b, 'OLMCanonical', { length: 3 });
+    const middle = new MorphologicalMetric([a.slice(1, 4), b.slice(1, 4)]);
+    expect(values[1]).toEqual(middle.OLMCanonical());
+    const unweighted = new MorphologicalMetric([
+      new Morph([2, 4, 2]),
+      new Morph([1, 4, 4])
+    ]);
+    expect(values[1]).not.toEqual(unweighted.OLMCanonical());
+  })
+
+  test('Self-similarity matrix', () => {
+    const { starts, matrix } = selfSimilarityMatrix(melody, 'OLM', { 
+      length: 5, 
+      hop: 4, 
+      options: { scaling: 'absolute' } 
+    });
+    expect(starts).toEqual([0, 4, 8]);
+    expect(matrix[0][2]).toEqual(0);
+    expect(matrix[0][1]).toEqual(matrix[1][0]);
+    expect(matrix[0][1]).toBeGreaterThan(0);
+  })
+
+  test('Cross-similarity matrix', () => {
+    const other = new Morph([0, 7, 5, 9, 0, 2]);
+    const res = crossSimilarityMatrix(melody, other, 'OLMCanonical', { 
+      length: 5, 
+      hop: 4 
+    });
+    expect(res.nStarts).toEqual([0]);
+    expect(res.matrix.map(row => row[0])[1]).toEqual(0);
+    expect(res.matrix).toHaveLength(3);
+  })
+
+  test('Discovers recurring motifs', () => {
+    // the motif at 0, a transposed copy at 7 and an inverted copy at 14
+    const long = new Morph([
+      0, 3, 4, 1, 0, 10, 17,
+      5, 8, 9, 6, 5, 20, 13,
+      6, 3, 2, 5, 6, 11, 15
+    ]);
+    const options = { delta: (a: number, b: number) => b - a };
+    const plain = discoverMotifs(long, 'OLMCanonical', {
+      length: 5,
+      threshold: 0,
+      options
+    });
+    expect(plain).toHaveLength(1);
+    expect(plain[0].prototype).toEqual(0);
+    expect(plain[0].motif.data).toEqual([0, 3, 4, 1, 0]);
+    expect(plain[0].occurrences.map(o => o.start)).toEqual([0, 7]);
+
+    const inv = discoverMotifs(long, 'OLMCanonical', {
+      length: 5,
+      threshold: 0,
+      options,
+      inversion: true,
+      transposition: true
+    });
+    expect(inv).toHaveLength(1);
+    expect(inv[0].occurrences.map(o => o.start)).toEqual([0, 7, 14]);
+    expect(inv[0].occurrences.map(o => o.inverted))
+      .toEqual([false, false, true]);
+
+    const contour = discoverMotifs(long, 'OCD', { length: 5, threshold: 0.1 });
+    expect(contour[0].occurrences.map(o => o.start)).toContain(7);
+    expect(discoverMotifs(long, 'OCD', { length: 5, threshold: -1 }))
+      .toEqual([]);
+  })
+})
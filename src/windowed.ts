@@ -0,0 +1,213 @@
+import { Morph, MorphologicalMetric } from './morphs';
+import { MetricName, metricValue, distanceMatrix } from './corpus';
+
+// Time-variant analysis: slides a window along one or two morphs and applies
+// a metric to each window, giving a series of distances (or a matrix of them)
+// rather than a single number.
+
+type WindowOptions = {
+  length: number,
+  hop?: number,
+  options?: object
+};
+
+type MotifOccurrence = {
+  start: number,
+  distance: number, // to the group's prototype
+  inverted: boolean
+};
+
+type MotifGroup = {
+  prototype: number, // start of the window the group was built around
+  motif: Morph,
+  occurrences: MotifOccurrence[] // including the prototype, by start
+};
+
+// start indices of every full window of `length` points, `hop` points apart
+const windowStarts = (dataLength: number, length: number, hop: number) => {
+  if (length < 2) {
+    throw new Error('Window length must be at least 2');
+  }
+  if (hop < 1) {
+    throw new Error('Hop size must be at least 1');
+  }
+  if (length > dataLength) {
+    throw new Error('Window length must not exceed the morph length');
+  }
+  const starts: number[] = [];
+  for (let s = 0; s + length <= dataLength; s += hop) {
+    starts.push(s);
+  }
+  return starts;
+}
+
+const windows = (morph: Morph, length: number, hop: number = 1) => {
+  return windowStarts(morph.data.length, length, hop).map(start => {
+    return morph.slice(start, start + length);
+  });
+}
+
+// Compares corresponding windows of two morphs, i.e. window i of m against
+// window i of n, for as many windows as the shorter morph allows.
+const windowedDistance = (
+  m: Morph,
+  n: Morph,
+  metric: MetricName,
+  { length, hop = 1, options = {} }: WindowOptions
+) => {
+  const dataLength = Math.min(m.data.length, n.data.length);
+  const starts = windowStarts(dataLength, length, hop);
+  const values = starts.map(start => {
+    const mWin = m.slice(start, start + length);
+    const nWin = n.slice(start, start + length);
+    return metricValue(new MorphologicalMetric([mWin, nWin]), metric, options);
+  });
+  return { starts, values };
+}
+
+// Compares every window of a morph against a motif; the window length is the
+// length of the motif.
+const motifDistance = (
+  m: Morph,
+  motif: Morph,
+  metric: MetricName,
+  { hop = 1, options = {} }: Omit<WindowOptions, 'length'> = {}
+) => {
+  const length = motif.data.length;
+  const starts = windowStarts(m.data.length, length, hop);
+  const values = starts.map(start => {
+    const win = m.slice(start, start + length);
+    return metricValue(new MorphologicalMetric([win, motif]), metric, options);
+  });
+  return { starts, values };
+}
+
+// Matrix of distances between every pair of windows of a single morph.
+// Entry [i][j] compares the windows starting at starts[i] and starts[j].
+const selfSimilarityMatrix = (
+  m: Morph,
+  metric: MetricName,
+  { length, hop = 1, options = {} }: WindowOptions
+) => {
+  const starts = windowStarts(m.data.length, length, hop);
+  const matrix = distanceMatrix(windows(m, length, hop), metric, { options });
+  return { starts, matrix };
+}
+
+// Matrix of distances between every window of m (rows) and every window of
+// n (columns).
+const crossSimilarityMatrix = (
+  m: Morph,
+  n: Morph,
+  metric: MetricName,
+  { length, hop = 1, options = {} }: WindowOptions
+) => {
+  const mStarts = windowStarts(m.data.length, length, hop);
+  const nStarts = windowStarts(n.data.length, length, hop);
+  const nWindows = windows(n, length, hop);
+  const matrix = windows(m, length, hop).map(mWin => {
+    return nWindows.map(nWin => {
+      return metricValue(new MorphologicalMetric([mWin, nWin]), metric, options);
+    });
+  });
+  return { mStarts, nStarts, matrix };
+}
+
+// Finds recurring sub-shapes of length `length` within a single morph. Every
+// pair of windows at least `minSeparation` points apart (so that a window
+// doesn't match its own shifted copy) is compared, and windows within
+// `threshold` of each other are matched. Groups are then built greedily: the
+// window with the most matches becomes a prototype, and its non-overlapping
+// matches its occurrences; windows are used in at most one group. With
+// `transposition`, each window is shifted to start at 0 before comparison; with
+// `inversion`, a window also matches the other window inverted about its first
+// value.
+const discoverMotifs = (
+  m: Morph,
+  metric: MetricName,
+  {
+    length,
+    threshold,
+    hop = 1,
+    options = {},
+    transposition = false,
+    inversion = false,
+    minSeparation = length
+  }: WindowOptions & {
+    threshold: number,
+    transposition?: boolean,
+    inversion?: boolean,
+    minSeparation?: number
+  }
+) => {
+  const starts = windowStarts(m.data.length, length, hop);
+  const wins = windows(m, length, hop).map(win => {
+    return transposition ? win.transpose(-win.data[0]) : win;
+  });
+  const distance = (a: Morph, b: Morph) => {
+    return metricValue(new MorphologicalMetric([a, b]), metric, options);
+  };
+  // matches[i] holds the windows close to window i, by window index rather
+  // than start until the groups are built
+  const matches: MotifOccurrence[][] = starts.map(() => []);
+  for (let i = 0; i < wins.length - 1; i++) {
+    for (let j = i + 1; j < wins.length; j++) {
+      if (starts[j] - starts[i] < minSeparation) continue;
+      let d = distance(wins[i], wins[j]);
+      let inverted = false;
+      if (inversion) {
+        const dInv = distance(wins[i], wins[j].invert());
+        if (dInv < d) {
+          d = dInv;
+          inverted = true;
+        }
+      }
+      if (d <= threshold) {
+        matches[i].push({ start: j, distance: d, inverted });
+        matches[j].push({ start: i, distance: d, inverted });
+      }
+    }
+  }
+  const used = new Set<number>();
+  const groups: MotifGroup[] = [];
+  const free = (i: number) => !used.has(i);
+  const order = starts.map((_, i) => i).sort((a, b) => {
+    return matches[b].length - matches[a].length || a - b;
+  });
+  order.forEach(p => {
+    if (used.has(p)) return;
+    const chosen: MotifOccurrence[] = [
+      { start: p, distance: 0, inverted: false }
+    ];
+    const candidates = matches[p]
+      .filter(match => free(match.start))
+      .sort((a, b) => a.distance - b.distance || a.start - b.start);
+    candidates.forEach(match => {
+      const overlaps = chosen.some(c => {
+        return Math.abs(starts[c.start] - starts[match.start]) < minSeparation;
+      });
+      if (!overlaps) chosen.push(match);
+    });
+    if (chosen.length < 2) return;
+    chosen.forEach(c => used.add(c.start));
+    groups.push({
+      prototype: starts[p],
+      motif: m.slice(starts[p], starts[p] + length),
+      occurrences: chosen
+        .map(c => ({ ...c, start: starts[c.start] }))
+        .sort((a, b) => a.start - b.start)
+    });
+  });
+  return groups;
+}
+
+export {
+  windows,
+  windowedDistance,
+  motifDistance,
+  selfSimilarityMatrix,
+  crossSimilarityMatrix,
+  discoverMotifs
+}
+
+export type { WindowOptions, MotifOccurrence, MotifGroup }